@@ -10,7 +10,7 @@ function SidePane() {
       class={styles.pane}
       onResize={domRect => setFixed(domRect.width <= 100)}
       size={fixed() ? '100px' : '1fr'}
-      max={fixed() ? '100px' : undefined}
+      min={fixed() ? '100px' : undefined}
     >
       <Split.Pane class={styles.pane} size="1fr">
         fraction
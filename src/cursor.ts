@@ -1,22 +1,100 @@
 type Vector = { x: number; y: number }
-type CursorEvent = { delta: Vector; total: Vector; event: MouseEvent; timespan: number }
+type CursorEvent = {
+  delta: Vector
+  total: Vector
+  event: PointerEvent
+  timespan: number
+  /** Whether the drag was cancelled instead of released: by Escape, a cancelled pointer or a loss of focus. */
+  cancelled: boolean
+}
+type CursorOptions = {
+  /** Cursor shown over the whole document for the duration of the drag, f.ex. `col-resize`. */
+  cursor?: string
+}
+
+/** Number of drags in progress: the styles of the document are restored once the last one ends. */
+let sessions = 0
+let documentStyles: { userSelect: string; webkitUserSelect: string } | undefined
+
+/**
+ * Locks the document for the duration of a drag: a full-screen overlay keeps iframes from swallowing the
+ * pointer-events and shows the cursor everywhere, and text can not be selected.
+ *
+ * @returns Function that ends the session.
+ */
+function startSession(options: CursorOptions) {
+  const root = document.documentElement
+  if (sessions++ === 0) {
+    documentStyles = {
+      userSelect: root.style.userSelect,
+      webkitUserSelect: root.style.getPropertyValue('-webkit-user-select'),
+    }
+    root.style.userSelect = 'none'
+    root.style.setProperty('-webkit-user-select', 'none')
+  }
+
+  const overlay = document.createElement('div')
+  overlay.setAttribute('data-drag-overlay', '')
+  Object.assign(overlay.style, {
+    position: 'fixed',
+    inset: '0',
+    zIndex: '2147483647',
+    cursor: options.cursor ?? '',
+    touchAction: 'none',
+  })
+  document.body.appendChild(overlay)
+
+  return () => {
+    overlay.remove()
+    if (--sessions === 0 && documentStyles) {
+      root.style.userSelect = documentStyles.userSelect
+      root.style.setProperty('-webkit-user-select', documentStyles.webkitUserSelect)
+      documentStyles = undefined
+    }
+  }
+}
+
 /**
  * cursor
  *
- * @param event MouseEvent
- * @param callback called every onMouseMove
- * @returns Promise resolved onMouseUp
+ * Tracks the pointer of the given event: other pointers are ignored. The pointer is captured by the
+ * event's current target, so the drag continues when the pointer leaves the element or the window.
+ * For the duration of the drag the document is covered by an overlay, so iframes do not swallow the
+ * pointer-events, and text-selection is disabled.
+ *
+ * @param event PointerEvent
+ * @param callback called on the moves of the pointer, at most once per animation frame
+ * @param [options.cursor] cursor shown over the whole document during the drag
+ * @returns Promise resolved onPointerUp, or cancelled onPointerCancel, when the pointer capture is lost,
+ * when the window loses focus or when Escape is pressed
  */
-export const cursor = (event: MouseEvent, callback: (config: CursorEvent) => void) => {
+export const cursor = (
+  event: PointerEvent,
+  callback: (config: CursorEvent) => void,
+  options: CursorOptions = {},
+) => {
   return new Promise<CursorEvent>(resolve => {
+    const pointerId = event.pointerId
+    const target = (event.currentTarget || event.target) as Element | null
     const start = {
       x: event.clientX,
       y: event.clientY,
     }
     let previous = start
+    let previousEvent = event
+    /** Latest move that is not reported yet, and the frame it will be reported in. */
+    let pendingEvent: PointerEvent | undefined
+    let frame: number | undefined
     const startTime = performance.now()
+    const endSession = startSession(options)
+
+    try {
+      target?.setPointerCapture(pointerId)
+    } catch (_error) {
+      // The pointer is not active anymore (or capturing is not supported): window-events still apply.
+    }
 
-    function onUpdate(event: MouseEvent) {
+    function onUpdate(event: PointerEvent) {
       const current = {
         x: event.clientX,
         y: event.clientY,
@@ -30,23 +108,90 @@ export const cursor = (event: MouseEvent, callback: (config: CursorEvent) => voi
         y: start.y - current.y,
       }
       previous = current
+      previousEvent = event
       const result = {
         total,
         delta,
         event,
         timespan: performance.now() - startTime,
+        cancelled: false,
       }
       callback(result)
       return result
     }
 
-    const onMouseUp = (event: MouseEvent) => {
-      window.removeEventListener('mousemove', onUpdate)
-      window.removeEventListener('mouseup', onMouseUp)
+    const flush = () => {
+      frame = undefined
+      if (!pendingEvent) return
+      const event = pendingEvent
+      pendingEvent = undefined
+      onUpdate(event)
+    }
+
+    /** Moves are merged per animation frame: high-frequency pointers are reported once per frame. */
+    const onPointerMove = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return
+      pendingEvent = event
+      if (typeof requestAnimationFrame === 'undefined') return flush()
+      frame ??= requestAnimationFrame(flush)
+    }
+
+    const cleanup = () => {
+      window.removeEventListener('pointermove', onPointerMove)
+      window.removeEventListener('pointerup', onPointerUp)
+      window.removeEventListener('pointercancel', onPointerCancel)
+      window.removeEventListener('blur', onInterrupt)
+      window.removeEventListener('keydown', onKeyDown, true)
+      target?.removeEventListener('lostpointercapture', onPointerCancel as EventListener)
+      if (frame !== undefined) cancelAnimationFrame(frame)
+      pendingEvent = undefined
+      try {
+        if (target?.hasPointerCapture(pointerId)) target.releasePointerCapture(pointerId)
+      } catch (_error) {
+        // Capturing is not supported.
+      }
+      endSession()
+    }
+
+    const onPointerUp = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return
+      cleanup()
       resolve(onUpdate(event))
     }
 
-    window.addEventListener('mousemove', onUpdate)
-    window.addEventListener('mouseup', onMouseUp)
+    /** Cancels the drag where it was last moved, resolving with the given event. */
+    const interrupt = (event: PointerEvent) => {
+      cleanup()
+      resolve({
+        total: { x: start.x - previous.x, y: start.y - previous.y },
+        delta: { x: 0, y: 0 },
+        event,
+        timespan: performance.now() - startTime,
+        cancelled: true,
+      })
+    }
+
+    /** Cancelled pointers do not report a reliable position: the drag ends where it was last moved. */
+    const onPointerCancel = (event: PointerEvent) => {
+      if (event.pointerId !== pointerId) return
+      interrupt(event)
+    }
+
+    /** Pointer-events are not delivered anymore once the window loses focus, f.ex. to an iframe or an alert. */
+    const onInterrupt = () => interrupt(previousEvent)
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return
+      event.preventDefault()
+      event.stopPropagation()
+      interrupt(previousEvent)
+    }
+
+    window.addEventListener('pointermove', onPointerMove)
+    window.addEventListener('pointerup', onPointerUp)
+    window.addEventListener('pointercancel', onPointerCancel)
+    window.addEventListener('blur', onInterrupt)
+    window.addEventListener('keydown', onKeyDown, true)
+    target?.addEventListener('lostpointercapture', onPointerCancel as EventListener)
   })
 }
@@ -1,23 +1,53 @@
 import {
+  batch,
   children,
   createContext,
   createEffect,
   createMemo,
+  createRenderEffect,
   createSelector,
   createSignal,
+  createUniqueId,
+  For,
   mapArray,
   mergeProps,
   on,
   onCleanup,
+  Show,
   splitProps,
+  untrack,
   useContext,
+  type Accessor,
   type ComponentProps,
   type JSX,
 } from 'solid-js'
+import { isServer } from 'solid-js/web'
 import { cursor } from './cursor'
+import { clampBoundary, resolvePixelsPerFraction, toFractions } from './solver'
+import {
+  getPaneIds,
+  isLayoutSplit,
+  movePane,
+  resizeNodes,
+  type DropZone,
+  type LayoutNode,
+  type LayoutSplit,
+} from './layout'
+import { getDefaultStorage, type SplitStorage } from './storage'
 import { mergeRefs } from './utils/merge-refs'
 import { withContext } from './with-context'
 
+export {
+  getPaneIds,
+  movePane,
+  removePane,
+  type DropZone,
+  type LayoutNode,
+  type LayoutPane,
+  type LayoutSplit,
+} from './layout'
+export { createCookieStorage, type SplitStorage } from './storage'
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                      Types                                     */
@@ -27,26 +57,103 @@ import { withContext } from './with-context'
 type FractionValue = `${string}fr`
 type PixelValue = `${string}px`
 type PercentageValue = `${string}%`
+type RelativeUnit = 'rem' | 'em' | 'vw' | 'vh' | 'ch'
+/** Length relative to the font-size of the root (`rem`), of the Split (`em`, `ch`) or to the viewport. */
+type RelativeValue = `${string}${RelativeUnit}`
+type LengthValue = PixelValue | PercentageValue | RelativeValue
+/** Size between a minimum and a maximum, f.ex. `minmax(100px, 1fr)`. */
+type MinMaxValue = `minmax(${string})`
+type SizeValue = FractionValue | LengthValue | 'auto' | MinMaxValue
+/**
+ * Position a handle snaps to, measured from the start of the Split to the start of the handle.
+ * `default` is the position at which the preceding pane has its declared size.
+ */
+type SnapPoint = LengthValue | 'default'
+
+interface SnapProps {
+  /** Amount of px the handle moves with the arrow-keys, and grid in px drags are quantized to. */
+  step?: number
+  /** Positions the handle snaps to while dragging. */
+  snapPoints?: SnapPoint[]
+  /** Distance in px from which the handle snaps to a snap point. Defaults to 10. */
+  snapThreshold?: number
+}
 interface FractionProps {
   size: FractionValue
+  min?: LengthValue
+  max?: LengthValue
 }
 interface OptionalFrProps {
   /** Defaults to 1fr */
   size?: FractionValue
+  min?: LengthValue
+  max?: LengthValue
+}
+interface LengthProps {
+  size: LengthValue
+  min?: LengthValue
+  max?: LengthValue
+}
+interface AutoProps {
+  /** Sized to its content until it is resized. */
+  size: 'auto'
+  min?: LengthValue
+  max?: LengthValue
+}
+interface MinMaxProps {
+  /** Resolves to the size of its second argument, with its first argument as `min`. */
+  size: MinMaxValue
+  min?: LengthValue
+  max?: LengthValue
 }
-interface PixelProps {
-  size: PixelValue
-  min?: PixelValue | PercentageValue
-  max?: PixelValue | PercentageValue
+
+type OptionalSizeProps = OptionalFrProps | LengthProps | AutoProps | MinMaxProps
+type SizeProps = FractionProps | LengthProps | AutoProps | MinMaxProps
+/** Size-props with `minmax()` resolved into a `size` and a `min`. */
+type ResolvedSizeProps = FractionProps | LengthProps | AutoProps
+
+interface CollapseProps {
+  /** Allows the pane to collapse when it is dragged below its `collapseThreshold`. */
+  collapsible?: boolean
+  /** Size of the pane while collapsed. Defaults to 0px */
+  collapsedSize?: LengthValue
+  /** Size below which the pane collapses while dragging, and above which it expands again. Defaults to 50px */
+  collapseThreshold?: LengthValue
+  onCollapse?: () => void
+  onExpand?: () => void
+}
+
+/** Range in px a pane can be resized within. */
+type PaneLimits = { min: number; max: number }
+
+/** Unit of a size: `auto`-panes are expressed in `px`. */
+export type SizeUnit = 'fr' | 'px' | '%' | RelativeUnit
+/** Size of a pane, expressed as a value and its unit. */
+export interface PaneSize {
+  value: number
+  unit: SizeUnit
 }
-interface PercentageProps {
-  size: PercentageValue
-  min?: PixelValue | PercentageValue
-  max?: PixelValue | PercentageValue
+/** Size of a pane in its declared unit, together with its computed size in px. */
+export interface ResolvedPaneSize extends PaneSize {
+  px: number
 }
 
-type OptionalSizeProps = OptionalFrProps | PixelProps | PercentageProps
-type SizeProps = FractionProps | PixelProps | PercentageProps
+/** Serialized layout of a Split, as it is persisted in storage. */
+type StoredLayout = Array<{
+  /** Declared size of the pane at the time of saving. */
+  size: string
+  /** Size of the pane in the unit of `size`, offsets included. */
+  value: number
+  /** Layout of the pane when it is a nested Split. */
+  children?: StoredLayout
+  /** When collapsed, `value` is the size the pane expands to. */
+  collapsed?: true
+}>
+
+interface SplitController {
+  serialize: () => StoredLayout
+  restore: (layout: unknown) => void
+}
 
 /**********************************************************************************/
 /*                                                                                */
@@ -54,10 +161,11 @@ type SizeProps = FractionProps | PixelProps | PercentageProps
 /*                                                                                */
 /**********************************************************************************/
 
-const propsMap = new WeakMap<Element, SizeProps>()
-const handleSet = new WeakSet<Element>()
-/** Symbol returned from `SplitContext.dragHandle()` when there was no resulting overflow after offsetting the pane-sizes. */
-const NO_OVERFLOW = Symbol('no-overflow')
+const paneMap = new WeakMap<Element, PaneDescriptor>()
+const elementMap = new WeakMap<PaneDescriptor, Element>()
+const splitMap = new WeakMap<PaneDescriptor, SplitController>()
+/** Symbol returned from `SplitPrimitive.dragHandle()` when there was no resulting overflow after offsetting the pane-sizes. */
+export const NO_OVERFLOW = Symbol('no-overflow')
 
 /**********************************************************************************/
 /*                                                                                */
@@ -65,17 +173,159 @@ const NO_OVERFLOW = Symbol('no-overflow')
 /*                                                                                */
 /**********************************************************************************/
 
+/** `rem` precedes `em`, since both end with `em`. */
+const RELATIVE_UNITS: RelativeUnit[] = ['rem', 'em', 'vw', 'vh', 'ch']
+
 const isPercentageSize = (value: string): value is PercentageValue => value.endsWith('%')
 const isFractionSize = (value: string): value is FractionValue => value.endsWith('fr')
-const isPixelSize = (value: string): value is PixelValue => value.endsWith('px')
 
-const isPercentageProps = (props: SizeProps): props is PercentageProps =>
-  isPercentageSize(props.size)
-const isPixelProps = (props: SizeProps): props is PixelProps => isPixelSize(props.size)
 const isFractionProps = (props: SizeProps): props is FractionProps => isFractionSize(props.size)
+const isAutoProps = (props: SizeProps): props is AutoProps => props.size === 'auto'
+
+/** Unit of a size: `auto` is expressed in `px`. */
+const getUnit = (value: string): SizeUnit =>
+  isFractionSize(value)
+    ? 'fr'
+    : isPercentageSize(value)
+    ? '%'
+    : RELATIVE_UNITS.find(unit => value.endsWith(unit)) ?? 'px'
+
+/** Splits `minmax(min, max)` into its arguments. */
+function parseMinMax(value: string) {
+  const match = value.match(/^minmax\(\s*([^,]+?)\s*,\s*(.+?)\s*\)$/)
+  return match && ([match[1], match[2]] as [string, string])
+}
+
+/** Resolves `minmax(min, max)` into a `size` of `max` with a `min` of `min`. Sizes default to `1fr`. */
+function resolveSizeProps(props: OptionalSizeProps): ResolvedSizeProps {
+  return {
+    get size() {
+      const size = props.size ?? '1fr'
+      const minmax = parseMinMax(size)
+      return (minmax ? minmax[1] : size) as ResolvedSizeProps['size']
+    },
+    get min() {
+      const minmax = parseMinMax(props.size ?? '1fr')
+      return minmax && minmax[0] !== 'auto' ? (minmax[0] as LengthValue) : props.min
+    },
+    get max() {
+      return props.max
+    },
+  } as ResolvedSizeProps
+}
+
+const isNotHandle = (pane: PaneDescriptor) => !pane.handle
+
+const isCollapsible = (pane: PaneDescriptor) => !!pane.collapsible
+/** Declared size of a pane, regardless if it is collapsed. */
+const getDeclaredSize = (pane: PaneDescriptor) => resolveSizeProps(pane).size
+
+const easeInOutCubic = (progress: number) =>
+  progress < 0.5 ? 4 * progress ** 3 : 1 - (-2 * progress + 2) ** 3 / 2
+const prefersReducedMotion = () =>
+  typeof matchMedia !== 'undefined' && matchMedia('(prefers-reduced-motion: reduce)').matches
+/** Whether the element is laid out right-to-left, through `dir="rtl"` or `direction: rtl`. */
+const isRightToLeft = (element: Element | undefined) =>
+  !!element &&
+  typeof getComputedStyle !== 'undefined' &&
+  getComputedStyle(element).direction === 'rtl'
+
+const [viewport, setViewport] = createSignal({ width: 0, height: 0 })
+let isViewportObserved = false
+
+/** Size of the viewport: tracked, so sizes in `vw` and `vh` follow resizes of the window. */
+function getViewportSize() {
+  if (!isViewportObserved) {
+    // The listener is shared by all Splits and is attached once, on the first read.
+    isViewportObserved = true
+    const measureViewport = () =>
+      setViewport({ width: window.innerWidth, height: window.innerHeight })
+    window.addEventListener('resize', measureViewport)
+    measureViewport()
+  }
+  return viewport()
+}
+
+/** Width of `0` in the font of an element, measured again when its font changes. */
+const characterWidths = new WeakMap<Element, { font: string; pixels: number }>()
+
+function getCharacterWidth(element: Element) {
+  const style = getComputedStyle(element)
+  const font = `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`
+  const cached = characterWidths.get(element)
+  if (cached?.font === font) return cached.pixels
+  // Measuring forces a layout: it is done once per font instead of on every read while dragging.
+  const probe = document.createElement('span')
+  probe.style.cssText = 'position: absolute; visibility: hidden; width: 1ch'
+  element.appendChild(probe)
+  const pixels = probe.getBoundingClientRect().width || 8
+  probe.remove()
+  characterWidths.set(element, { font, pixels })
+  return pixels
+}
+
+/** Size in px of a unit relative to the font-size or the viewport. */
+function getRelativeUnitPixels(unit: RelativeUnit, element: Element | undefined) {
+  if (typeof window === 'undefined')
+    return unit === 'ch' ? 8 : unit === 'vw' || unit === 'vh' ? 0 : 16
+  switch (unit) {
+    case 'rem':
+      return parseFloat(getComputedStyle(document.documentElement).fontSize) || 16
+    case 'em':
+      return (element && parseFloat(getComputedStyle(element).fontSize)) || 16
+    case 'vw':
+      return getViewportSize().width / 100
+    case 'vh':
+      return getViewportSize().height / 100
+    case 'ch':
+      return getCharacterWidth(element ?? document.body)
+  }
+}
 
-const getProps = (element: Element) => propsMap.get(element)
-const isNotHandle = (element: Element) => !handleSet.has(element)
+/** Size in px of a unit of length: `%` resolves against the container, `em` and `ch` against the element. */
+const getLengthUnitPixels = (
+  unit: Exclude<SizeUnit, 'fr'>,
+  containerSize: number,
+  element: Element | undefined,
+) => (unit === 'px' ? 1 : unit === '%' ? containerSize / 100 : getRelativeUnitPixels(unit, element))
+
+/** Resolves a length to px. */
+const toPixels = (value: LengthValue, containerSize: number, element?: Element) =>
+  parseFloat(value) *
+  getLengthUnitPixels(getUnit(value) as Exclude<SizeUnit, 'fr'>, containerSize, element)
+
+/** Template of a track with the given size, constrained by the `min` and `max` of its props. */
+function getTrackTemplate(props: ResolvedSizeProps, size: string) {
+  if (isFractionProps(props)) {
+    // A fraction can not be the minimum of a track: `max` is only enforced while dragging.
+    return props.min ? `minmax(${props.min}, ${size})` : size
+  }
+  return props.min
+    ? props.max
+      ? `max(${props.min}, min(${props.max}, ${size}))`
+      : `max(${props.min}, ${size})`
+    : props.max
+    ? `min(${props.max}, ${size})`
+    : size
+}
+
+/** Position of a separator as a percentage of the combined size of its neighbors, as exposed to ARIA. */
+function getSeparatorRange(
+  leftPixels: number,
+  rightPixels: number,
+  leftLimits: PaneLimits,
+  rightLimits: PaneLimits,
+) {
+  const total = leftPixels + rightPixels
+  if (!total) return
+  const toPercentage = (value: number) =>
+    Math.round((Math.min(Math.max(value, 0), total) / total) * 100)
+  return {
+    now: toPercentage(leftPixels),
+    min: toPercentage(Math.max(leftLimits.min, total - rightLimits.max)),
+    max: toPercentage(Math.min(leftLimits.max, total - rightLimits.min)),
+  }
+}
 
 type Nested<T> = () => Nested<T> | T
 
@@ -93,7 +343,7 @@ function resolveNode<T>(value: Nested<T>): T {
 /*                                                                                */
 /**********************************************************************************/
 
-function getNeigboringPanes(panes: Element[], handle: Element) {
+function getNeigboringPanes(panes: PaneDescriptor[], handle: PaneDescriptor) {
   const index = panes.indexOf(handle)
 
   if (index === -1) {
@@ -124,173 +374,254 @@ function getNeigboringPanes(panes: Element[], handle: Element) {
   return [left, right] as const
 }
 
+/** Returns the pane together with its next pane, or with its previous pane when it is the last one. */
+function getAdjacentPanes(panes: PaneDescriptor[], pane: PaneDescriptor) {
+  const siblings = panes.filter(isNotHandle)
+  const index = siblings.indexOf(pane)
+  if (index === -1) return
+  const next = siblings[index + 1]
+  if (next) return [pane, next] as const
+  const previous = siblings[index - 1]
+  if (previous) return [previous, pane] as const
+  return
+}
+
 /**********************************************************************************/
 /*                                                                                */
-/*                                      Base                                      */
+/*                                   createSplit                                  */
 /*                                                                                */
 /**********************************************************************************/
 
-type BaseProps = Omit<ComponentProps<'span'>, 'style'> & {
-  style?: JSX.CSSProperties
-} & OptionalSizeProps
-
 /**
- * Internal base-component
+ * Pane of a headless split. Handles are panes with `handle` set: they take up space, but are never resized.
+ * Descriptors are compared by identity, so they should be created once per pane.
  */
-function Base(props: BaseProps) {
-  const context = useSplit()
-  const config = mergeProps({ size: `1fr` } satisfies SizeProps, props)
-  const [, rest] = splitProps(props, [
-    'size',
-    // @ts-expect-error TODO: props don't have min-prop when using fraction units
-    'min',
-    // @ts-expect-error TODO: props don't have max-prop when using fraction units
-    'max',
-    'style',
-    'ref',
-  ])
-  let ref: HTMLSpanElement
-
-  const pane = (
-    <span
-      style={{ overflow: 'hidden', ...props.style }}
-      {...rest}
-      ref={mergeRefs(props, value => (ref = value))}
-      data-active-pane={context?.isActivePane(ref!) || undefined}
-    >
-      {props.children}
-    </span>
-  )
+export type PaneDescriptor = OptionalSizeProps &
+  CollapseProps & {
+    handle?: boolean
+    /** Id of the element rendering the pane. */
+    id?: string
+    /** Stable identity of the pane: a pane inserted with the key of a removed pane takes over its size. */
+    key?: string
+    /** Measures the rendered size in px of the pane along the axis of the split. Sizes `auto`-panes. */
+    measure?: () => number
+    /** Measures the intrinsic size in px of the content of the pane along the axis of the split. Used by `fit`. */
+    measureContent?: () => number
+  }
 
-  propsMap.set(pane as Element, config)
-  return pane
+export interface CreateSplitOptions {
+  /** Panes and handles, in order of appearance. */
+  panes: PaneDescriptor[]
+  /** Size in px of the split along its axis. `0` while it is not measured, f.ex. on the server. */
+  containerSize: number
+  /** Element the split is rendered in: `em` and `ch` resolve against its font. */
+  element?: Element
+  /** Controlled sizes of the panes (handles excluded), in order of appearance. */
+  sizes?: PaneSize[]
+  onSizesChange?: (sizes: ResolvedPaneSize[]) => void
+  cascade?: boolean
+  /**
+   * Keeps the sizes in px of the panes when panes are inserted or removed: removed panes hand their space to
+   * their neighbors, inserted panes take theirs from the neighbor given by `insertFrom`. Defaults to `true`.
+   */
+  preserveSizes?: boolean
+  /** Neighbor an inserted pane takes its space from, falling back to the other neighbor. Defaults to `next`. */
+  insertFrom?: 'previous' | 'next'
+  /** Lists the tracks of the template from the last pane to the first, for panes rendered in reverse order. */
+  reverse?: boolean
+  transition?: boolean | TransitionOptions
+  onTransitionEnd?: () => void
+  /** Called when a drag ends and after each programmatic resize, f.ex. to persist the layout. */
+  onCommit?: () => void
 }
 
-/**********************************************************************************/
-/*                                                                                */
-/*                                      Split                                     */
-/*                                                                                */
-/**********************************************************************************/
-
-type SplitContext = {
-  dragHandle: (panes: readonly [Element, Element], deltaX: number) => number | typeof NO_OVERFLOW
-  dragHandleStart: (handle: Element) => readonly [Element, Element] | undefined
+/** Reactive state and functions of a headless split. */
+export interface SplitPrimitive {
+  /** Grid-template of the panes and handles, following transitions frame by frame. */
+  template: () => string
+  getSizes: () => ResolvedPaneSize[]
+  /** Size of the pane in its declared unit, together with its size in px. */
+  getPaneSize: (pane: PaneDescriptor) => ResolvedPaneSize
+  /** Neighboring panes of the handle that is being dragged. */
+  activePanes: () => readonly [PaneDescriptor, PaneDescriptor] | undefined
+  isActivePane: (pane: PaneDescriptor) => boolean
+  getNeighboringPanes: (
+    handle: PaneDescriptor,
+  ) => readonly [PaneDescriptor, PaneDescriptor] | undefined
+  getPanePixels: (pane: PaneDescriptor) => number
+  getPaneLimits: (pane: PaneDescriptor) => PaneLimits
+  /** Position in px of the start of the handle, relative to the start of the split. */
+  getHandlePosition: (handle: PaneDescriptor) => number
+  /** Resolves snap points to positions in px, relative to the start of the split. */
+  getSnapPositions: (handle: PaneDescriptor, snapPoints: SnapPoint[]) => number[]
+  isCollapsed: (pane: PaneDescriptor | undefined) => boolean
+  /** Collapses the pane. The neighboring panes default to the pane and its adjacent pane. */
+  collapse: (pane: PaneDescriptor, neighbors?: readonly [PaneDescriptor, PaneDescriptor]) => void
+  /** Expands the pane to its size before collapsing. The neighboring panes default to the pane and its adjacent pane. */
+  expand: (pane: PaneDescriptor, neighbors?: readonly [PaneDescriptor, PaneDescriptor]) => void
+  /** Resets the panes to their declared size and expands them. */
+  reset: (panes: readonly PaneDescriptor[]) => void
+  /** Divides the combined size of the neighboring panes evenly between them. */
+  equalize: (neighbors: readonly [PaneDescriptor, PaneDescriptor]) => void
+  /** Resizes the pane to the intrinsic size of its content. */
+  fit: (pane: PaneDescriptor, neighbors: readonly [PaneDescriptor, PaneDescriptor]) => void
+  dragHandleStart: (handle: PaneDescriptor) => readonly [PaneDescriptor, PaneDescriptor] | undefined
+  /** Moves the handle between the panes by `deltaPx`. Returns the part of the delta that could not be applied. */
+  dragHandle: (
+    panes: readonly [PaneDescriptor, PaneDescriptor],
+    deltaPx: number,
+  ) => number | typeof NO_OVERFLOW
   dragHandleEnd: () => void
-  isActivePane: (element: Element) => void
-  type: 'column' | 'row'
-}
-
-const splitContext = createContext<SplitContext>()
-function useSplit() {
-  const context = useContext(splitContext)
-  return context
+  /** Ends the drag, restoring the sizes and collapsed panes from before `dragHandleStart`. */
+  dragHandleCancel: () => void
+  /** Resizes the pane, taking the space from (or giving it to) its adjacent pane. */
+  setSize: (pane: PaneDescriptor, size: PaneSize | FractionValue | LengthValue) => void
+  /** Moves the handle by the given amount of px, as if it was dragged. */
+  resizeBy: (handle: PaneDescriptor, deltaPx: number) => void
+  /** Gives all panes that are not collapsed the same size. */
+  distributeEvenly: () => void
+  /** Pane that is maximized, if any. */
+  maximized: () => PaneDescriptor | undefined
+  /**
+   * Maximizes the pane: the other panes take their `collapsedSize` and the handles are hidden. Without a pane
+   * the layout from before maximizing is restored. Panes can not be resized while a pane is maximized.
+   */
+  maximize: (pane: PaneDescriptor | undefined) => void
+  /** Serializes the sizes of the panes (handles excluded), without nested layouts. */
+  serialize: () => StoredLayout
+  /** Restores a serialized layout. Returns `false` when the layout does not match the panes. */
+  restore: (layout: unknown) => boolean
 }
 
-type SplitProps = Omit<ComponentProps<'span'>, 'style'> &
-  OptionalSizeProps & {
-    type?: 'column' | 'row'
-    style?: JSX.CSSProperties
-    onTemplate?: (template: string) => void
-    onResize?: (size: DOMRect, element: HTMLSpanElement) => void
-  }
-
 /**
- * A Split component that creates a resizable container with panes, based on CSS Grid.
- * It allows for dynamic resizing of panes either in a column or row layout.
+ * createSplit
  *
- * This component generates a CSS Grid template, which means all valid CSS Grid size units are supported,
- * such as `fr` (fraction), `px` (pixels), and `%` (percentage).
- *
- * Split components can be nested to create more complex layouts.
+ * Headless primitive behind `Split`: resolves the sizes of the given panes within the given container-size
+ * into a grid-template, and resizes them within their constraints. Rendering, measuring and pointer-events
+ * are left to the caller.
  *
- * @param props - The props for the Split component.
- * @param [props.type='column'] - The direction of the split, either `column` or `row`.
- * @param [props.style] - The CSS style applied to the grid container.
- * @returns The Split component containing panes.
+ * @param options - Reactive options: read lazily, so getters can be passed.
+ * @returns The reactive state and functions of the split.
  *
  * @example
- * <Split style={{ height: '100vh' }}>
- *  <Split type="row" style={{ height: '100vh' }}>
- *    <Split.Pane size="1fr">Top Pane</Split.Pane>
- *    <Split.Handle size="10px" />
- *    <Split.Pane size="2fr">Bottom Pane</Split.Pane>
- *  </Split>
- *   <Split.Pane size="1fr">Left Pane</Split.Pane>
- *   <Split.Handle size="10px" />
- *   <Split.Pane size="2fr">Right Pane</Split.Pane>
- * </Split>
- *
- * @warning Fraction-based sizes (`fr`) cannot have `min` or `max` constraints.
- * @warning All elements that are not `Grid`, `Grid.Handle` or `Grid.Pane` are filtered from the children.
+ * const split = createSplit({
+ *   get panes() { return [left, handle, right] },
+ *   get containerSize() { return width() },
+ * })
+ * <div style={{ display: 'grid', 'grid-template-columns': split.template() }} />
  */
-export function Split(props: SplitProps) {
-  const config = mergeProps({ type: 'column' as const }, props)
-  const [, rest] = splitProps(props, ['type', 'style', 'ref'])
-  const [domRect, setDomRect] = createSignal<DOMRect>()
-  const [activePanels, setActivePanels] = createSignal<readonly [Element, Element] | undefined>(
-    undefined,
-  )
+export function createSplit(options: CreateSplitOptions): SplitPrimitive {
+  const [activePanes, setActivePanes] = createSignal<
+    readonly [PaneDescriptor, PaneDescriptor] | undefined
+  >(undefined)
   /** Holds offsets in px for `PixelValue` and `PercentageValue` and fractions for `FractionValue` */
-  const [offsets, setOffsets] = createSignal<WeakMap<Element, number>>(new WeakMap(), {
+  const [offsets, setOffsets] = createSignal<WeakMap<PaneDescriptor, number>>(new WeakMap(), {
     equals: false,
   })
-  const [splitRef, setSplitRef] = createSignal<HTMLSpanElement>()
-
-  const containerSize = () => (config.type === 'column' ? domRect()?.width : domRect()?.height) || 0
-
-  function offset(element: Element, delta: number) {
-    setOffsets(map => {
-      map.set(element, (map.get(element) || 0) - delta)
-      return map
-    })
+  /** Holds the sizes, in their declared unit, collapsed panes will expand to. */
+  const [collapsedPanes, setCollapsedPanes] = createSignal<WeakMap<PaneDescriptor, PaneSize>>(
+    new WeakMap(),
+    { equals: false },
+  )
+  /** Pixel-sizes of collapsible panes at the start of the current collapse or expand drag. */
+  let dragOrigins = new WeakMap<PaneDescriptor, number>()
+  /** State of the panes at the start of the current drag, restored when the drag is cancelled. */
+  let dragSnapshot:
+    | Array<{
+        pane: PaneDescriptor
+        offset: number | undefined
+        collapsedSize: PaneSize | undefined
+        autoSize: number | undefined
+      }>
+    | undefined
+  /** Pane whose limits are ignored while it is collapsing. */
+  let unconstrainedPane: PaneDescriptor | undefined
+  /** Sizes in px of `auto`-panes at the moment they were first resized: the base their offsets apply to. */
+  const autoSizes = new WeakMap<PaneDescriptor, number>()
+  /** Template of the current frame of a transition. */
+  const [transitionTemplate, setTransitionTemplate] = createSignal<string>()
+  let transitionFrame: number | undefined
+  /** Sizes in px of the current frame of a transition. */
+  let transitionSizes: number[] | undefined
+  /** Pane that takes up all space of the split, while the other panes take their collapsed size. */
+  const [maximized, setMaximized] = createSignal<PaneDescriptor>()
+  /** Invalidates the sizes in px, so that `auto`-panes are measured again. */
+  const [measurement, remeasure] = createSignal(undefined, { equals: false })
+  /** Sizes of removed panes with a `key`, taken over by panes inserted with the same key. */
+  const removedSizes = new Map<string, PaneSize>()
+
+  // A signal instead of a memo: the sizes of the previous panes are read before the new panes take effect.
+  const [panes, setPanes] = createSignal(untrack(() => options.panes))
+  const containerSize = () => options.containerSize
+
+  /** Size-props in effect: collapsed panes take their `collapsedSize` as size, without constraints. */
+  function getProps(pane: PaneDescriptor): ResolvedSizeProps {
+    const maximizedPane = maximized()
+    if (maximizedPane) {
+      // The other panes take their `collapsedSize`, handles are hidden.
+      if (pane === maximizedPane) return { size: '1fr' }
+      return { size: (!pane.handle && pane.collapsedSize) || '0px' }
+    }
+    return isCollapsed(pane) ? { size: pane.collapsedSize ?? '0px' } : resolveSizeProps(pane)
   }
 
-  function getNonFractionPixels(value: PixelValue | PercentageValue, offset = 0) {
-    return isPercentageSize(value)
-      ? ((parseFloat(value) - offset) / 100) * containerSize()
-      : parseFloat(value) - offset
+  function getNonFractionPixels(value: LengthValue, offset = 0) {
+    return (parseFloat(value) - offset) * getPixelsPerUnit(getUnit(value))
   }
 
-  function getNonFractionPanePixels(element: Element) {
-    const props = getProps(element)
-    const offset = getOffset(element)
-    if (!props) return 0
+  function getNonFractionPanePixels(pane: PaneDescriptor) {
+    const props = getProps(pane)
+    const offset = getOffset(pane)
     if (isFractionProps(props)) return 0
+    if (isAutoProps(props)) return getDeclaredValue(pane) - offset
     return getNonFractionPixels(props.size, offset)
   }
 
-  function getPixelsPerFraction() {
-    const sumOfFractionPanePixelSizes = getSumOfFractionPanePixels()
-    const totalFrUnits = getFractionPanes().reduce(
-      (total, pane) => total + parseFloat(getProps(pane)!.size),
-      0,
-    )
+  /** Size in px of one unit. */
+  function getPixelsPerUnit(unit: SizeUnit): number {
+    return unit === 'fr'
+      ? getPixelsPerFraction()
+      : getLengthUnitPixels(unit, containerSize(), options.element)
+  }
 
-    if (totalFrUnits === 0) {
-      // If there are no fraction units, return 0 to avoid division by zero
-      return 0
-    } else if (totalFrUnits < 1) {
-      // When total fraction units are less than 1, the remaining space should be distributed
-      const remainingSpace =
-        sumOfFractionPanePixelSizes - sumOfFractionPanePixelSizes * totalFrUnits
-      return (
-        sumOfFractionPanePixelSizes / (totalFrUnits + remainingSpace / sumOfFractionPanePixelSizes)
-      )
-    } else {
-      // Normal case where totalFrUnits >= 1
-      return sumOfFractionPanePixelSizes / totalFrUnits
+  /** Declared size of the pane in its unit: `auto`-panes are measured until they are resized. */
+  function getDeclaredValue(pane: PaneDescriptor, size: string = getProps(pane).size) {
+    return size === 'auto' ? autoSizes.get(pane) ?? pane.measure?.() ?? 0 : parseFloat(size)
+  }
+
+  /** Fixes the size of an `auto`-pane before it is offset for the first time. */
+  function retainAutoSize(pane: PaneDescriptor) {
+    if (isAutoProps(getProps(pane)) && !autoSizes.has(pane)) {
+      autoSizes.set(pane, pane.measure?.() ?? 0)
     }
   }
 
-  function getPixelSizeOfFractionPane(element: Element) {
-    const props = getProps(element)
-    const offset = getOffset(element)
-    if (!props || !isFractionProps(props)) return 0
-    return (parseFloat(props.size) - offset) * getPixelsPerFraction()
+  function getPixelsPerFraction() {
+    return pixelsPerFraction()
+  }
+
+  function computePixelsPerFraction() {
+    const fractions = getFractionPanes().reduce((total, pane) => total + getFraction(pane), 0)
+    return resolvePixelsPerFraction(getSumOfFractionPanePixels(), fractions)
   }
 
-  function getOffset(element: Element) {
-    return offsets().get(element) || 0
+  /** Fraction of a fraction-pane, offset included. */
+  function getFraction(pane: PaneDescriptor) {
+    return parseFloat(getProps(pane).size) - getOffset(pane)
+  }
+
+  function getPixelSizeOfFractionPane(pane: PaneDescriptor) {
+    if (!isFractionProps(getProps(pane))) return 0
+    return getFraction(pane) * getPixelsPerFraction()
+  }
+
+  /** Offset in effect: offsets are kept, but do not apply, while a pane is maximized. */
+  function getOffset(pane: PaneDescriptor) {
+    return maximized() ? 0 : getStoredOffset(pane)
+  }
+
+  function getStoredOffset(pane: PaneDescriptor) {
+    return offsets().get(pane) || 0
   }
 
   function getSumOfNonFractionPanePixels() {
@@ -301,254 +632,1262 @@ export function Split(props: SplitProps) {
     return containerSize() - getSumOfNonFractionPanePixels()
   }
 
-  function offsetFractionAndNonFractionPane(
-    fractionPane: Element,
-    nonFractionPane: Element,
-    deltaPx: number,
-  ) {
-    // Collect all fraction-panes
-    const fractionPanes = getFractionPanes()
-    const fractionPaneIndex = fractionPanes.indexOf(fractionPane)
+  function computePanePixels(pane: PaneDescriptor) {
+    return isFractionProps(getProps(pane))
+      ? getPixelSizeOfFractionPane(pane)
+      : getNonFractionPanePixels(pane)
+  }
+
+  function getPanePixels(pane: PaneDescriptor) {
+    return panePixels().get(pane) ?? computePanePixels(pane)
+  }
 
-    // Gather pixel size of all fraction-panes (before offset)
-    const fractionPanesPixelSizes = fractionPanes.map(getPixelSizeOfFractionPane)
+  /** Resolves the range in px a pane can be resized within. */
+  function getPaneLimits(pane: PaneDescriptor): PaneLimits {
+    if (pane === unconstrainedPane) return { min: 0, max: Infinity }
+    if (isCollapsed(pane)) {
+      // Collapsed panes can only change size by expanding them.
+      const pixels = getPanePixels(pane)
+      return { min: pixels, max: pixels }
+    }
+    const props = getProps(pane)
+    const min = props.min ? getNonFractionPixels(props.min) : 0
+    const max = props.max ? getNonFractionPixels(props.max) : Infinity
+    // Like CSS, a `max` below the `min` is ignored.
+    return { min, max: Math.max(min, max) }
+  }
+
+  /**
+   * Resizes the panes to the given sizes in px, expressed in their declared units. All sizes are resolved
+   * together: fraction-panes that are not given keep their size in px, as far as the space left allows.
+   */
+  function setPanePixels(targets: Map<PaneDescriptor, number>) {
+    const getTarget = (pane: PaneDescriptor) => targets.get(pane) ?? getPanePixels(pane)
+    const fractionPanes = getFractionPanes()
+    const space = getNonFractionPanes().reduce(
+      (total, pane) => total - getTarget(pane),
+      containerSize(),
+    )
+    const fractions = toFractions(
+      fractionPanes.map(getTarget),
+      fractionPanes.map(getFraction),
+      space,
+    )
 
-    let nonPaneOffset = isPixelProps(getProps(nonFractionPane)!)
-      ? deltaPx
-      : (deltaPx / containerSize()) * 100
+    const values = new Map(fractionPanes.map((pane, index) => [pane, fractions[index]!]))
+    targets.forEach((pixels, pane) => {
+      const props = getProps(pane)
+      if (isFractionProps(props) || isCollapsed(pane)) return
+      if (isAutoProps(props)) {
+        retainAutoSize(pane)
+        values.set(pane, pixels)
+        return
+      }
+      const pixelsPerUnit = getPixelsPerUnit(getUnit(props.size))
+      if (pixelsPerUnit) values.set(pane, pixels / pixelsPerUnit)
+    })
 
-    // Offset neighboring non-fraction pane
-    offset(nonFractionPane, nonPaneOffset)
+    setOffsets(map => {
+      values.forEach((value, pane) => map.set(pane, getDeclaredValue(pane) - value))
+      return map
+    })
+  }
 
-    // Offset pixel size of neighboring fraction-pane with deltaPx
-    const fractionPanePixels = (fractionPanesPixelSizes[fractionPaneIndex] -= deltaPx)
+  /**
+   * Moves the boundary between the neighboring panes by `deltaPx`, within the limits of both panes.
+   * Returns the part of the delta that could not be applied.
+   */
+  function offsetNeighboringPanes(
+    [left, right]: readonly [PaneDescriptor, PaneDescriptor],
+    deltaPx: number,
+  ): number | typeof NO_OVERFLOW {
+    if (deltaPx === 0) return NO_OVERFLOW
+
+    const leftPixels = getPanePixels(left)
+    const rightPixels = getPanePixels(right)
+    const delta = clampBoundary(
+      leftPixels,
+      rightPixels,
+      getPaneLimits(left),
+      getPaneLimits(right),
+      deltaPx,
+    )
+    if (delta !== 0) {
+      setPanePixels(
+        new Map([
+          [left, leftPixels + delta],
+          [right, rightPixels - delta],
+        ]),
+      )
+    }
 
-    if (fractionPanePixels < 0) {
-      offset(nonFractionPane, -nonPaneOffset)
+    return delta === deltaPx ? NO_OVERFLOW : deltaPx - delta
+  }
 
-      // Offset neighboring non-fraction pane
-      fractionPanesPixelSizes[fractionPaneIndex] = 0
+  /**
+   * Offsets the neighboring panes like `offsetNeighboringPanes`, but once the shrinking pane reaches its limit
+   * the remaining delta is taken from the next panes in the direction of travel.
+   */
+  function cascadeNeighboringPanes(
+    [left, right]: readonly [PaneDescriptor, PaneDescriptor],
+    deltaPx: number,
+  ): number | typeof NO_OVERFLOW {
+    if (deltaPx === 0) return NO_OVERFLOW
+
+    const siblings = panes().filter(isNotHandle)
+    const growingPane = deltaPx > 0 ? left : right
+    const shrinkingPanes =
+      deltaPx > 0
+        ? siblings.slice(siblings.indexOf(right))
+        : siblings.slice(0, siblings.indexOf(left) + 1).reverse()
+
+    let remainingPx = deltaPx
+    for (const pane of shrinkingPanes) {
+      const pixels = getPanePixels(growingPane)
+      offsetNeighboringPanes(deltaPx > 0 ? [growingPane, pane] : [pane, growingPane], remainingPx)
+      remainingPx -= (getPanePixels(growingPane) - pixels) * Math.sign(deltaPx)
+      if (Math.abs(remainingPx) < 0.001) return NO_OVERFLOW
     }
 
-    const total = fractionPanesPixelSizes.reduce((a, b) => a + b, 0)
-    const totalFrUnits = fractionPanes.map(getProps).reduce((a, b) => a + parseFloat(b!.size), 0)
+    return remainingPx
+  }
+
+  /** Moves the handle between the panes, collapsing and expanding them along the way. */
+  function moveHandle(neighbors: readonly [PaneDescriptor, PaneDescriptor], deltaPx: number) {
+    return (
+      dragCollapsiblePanes(neighbors, deltaPx) ??
+      (options.cascade ? cascadeNeighboringPanes : offsetNeighboringPanes)(neighbors, deltaPx)
+    )
+  }
+
+  function isCollapsed(pane: PaneDescriptor | undefined) {
+    const map = collapsedPanes()
+    return !!pane && map.has(pane)
+  }
 
-    // calculate the new fractions
-    const newFractions = fractionPanesPixelSizes.map(size => (size * totalFrUnits) / total)
-    // // calculate the new offsets
-    const newOffsets = newFractions.map((newFraction, index) => {
-      const oldFraction = parseFloat(getProps(fractionPanes[index]!)!.size)
-      return oldFraction - newFraction
+  /** Offsets the neighboring panes so that the given pane ends up with the given size in px. */
+  function resizePane(
+    pane: PaneDescriptor,
+    neighbors: readonly [PaneDescriptor, PaneDescriptor],
+    pixels: number,
+  ) {
+    const delta = pixels - getPanePixels(pane)
+    return offsetNeighboringPanes(neighbors, pane === neighbors[0] ? delta : -delta)
+  }
+
+  function collapsePane(
+    pane: PaneDescriptor,
+    neighbors: readonly [PaneDescriptor, PaneDescriptor],
+  ) {
+    if (!isCollapsible(pane) || isCollapsed(pane)) return
+    const declaredSize = getDeclaredSize(pane)
+    const size = {
+      value: getDeclaredValue(pane, declaredSize) - getOffset(pane),
+      unit: getUnit(declaredSize),
+    }
+    // Shrink the pane first, so the space it frees up goes to the neighboring pane.
+    unconstrainedPane = pane
+    resizePane(pane, neighbors, getNonFractionPixels(pane.collapsedSize ?? '0px'))
+    unconstrainedPane = undefined
+    // From here on the pane takes its `collapsedSize` as size.
+    batch(() => {
+      setCollapsedPanes(map => map.set(pane, size))
+      setOffsets(map => map.set(pane, 0))
+      autoSizes.delete(pane)
     })
+    pane.onCollapse?.()
+  }
 
-    // Set newly calculated offsets
-    setOffsets(map => {
-      newOffsets.forEach((offset, index) => {
-        map.set(fractionPanes[index]!, offset)
-      })
-      return map
+  function expandPane(
+    pane: PaneDescriptor,
+    neighbors: readonly [PaneDescriptor, PaneDescriptor],
+    pixels?: number,
+  ) {
+    const size = collapsedPanes().get(pane)
+    if (!size) return NO_OVERFLOW
+    // Express the collapsed size in the declared unit before it takes effect again.
+    const declaredSize = getDeclaredSize(pane)
+    const offset =
+      getDeclaredValue(pane, declaredSize) -
+      convertSize({ value: getPanePixels(pane), unit: 'px' }, getUnit(declaredSize))
+    const targetPixels = pixels ?? convertSize(size, 'px')
+    batch(() => {
+      setCollapsedPanes(map => (map.delete(pane), map))
+      setOffsets(map => map.set(pane, offset))
     })
+    const overflow = resizePane(pane, neighbors, targetPixels)
+    pane.onExpand?.()
+    return overflow
   }
 
-  function getFractionOverflow(element: Element, deltaFr: number): number {
-    const props = getProps(element)!
-    const offset = getOffset(element)
-    if (!isFractionProps(props)) {
-      console.error('tried to get fraction overflow of non-fraction pane', element)
-      return 0
+  /**
+   * Collapses or expands one of the neighboring panes when it is dragged past its `collapseThreshold`.
+   * Returns `undefined` when the drag does not concern collapsing.
+   */
+  function dragCollapsiblePanes(
+    neighbors: readonly [PaneDescriptor, PaneDescriptor],
+    deltaPx: number,
+  ): number | typeof NO_OVERFLOW | undefined {
+    for (const pane of neighbors) {
+      if (!isCollapsible(pane)) continue
+
+      const direction = pane === neighbors[0] ? 1 : -1
+      const threshold = getNonFractionPixels(pane.collapseThreshold ?? '50px')
+
+      if (isCollapsed(pane)) {
+        // While collapsed the handle accumulates the delta, so it is relative to the origin.
+        const origin = dragOrigins.get(pane) ?? getPanePixels(pane)
+        const pixels = origin + deltaPx * direction
+        if (pixels < threshold) {
+          dragOrigins.set(pane, origin)
+          return deltaPx
+        }
+        dragOrigins.delete(pane)
+        return expandPane(pane, neighbors, pixels)
+      }
+
+      const pixels = getPanePixels(pane)
+      if (deltaPx * direction < 0 && pixels + deltaPx * direction < threshold) {
+        dragOrigins.set(pane, pixels)
+        collapsePane(pane, neighbors)
+        return deltaPx
+      }
     }
-    const overflow = parseFloat(props.size) - offset + deltaFr
-    return overflow < 0 ? overflow : 0
+    return
+  }
+
+  function resetPanes(targets: readonly PaneDescriptor[]) {
+    batch(() => {
+      targets.forEach(pane => {
+        if (isCollapsed(pane)) {
+          setCollapsedPanes(map => (map.delete(pane), map))
+          pane.onExpand?.()
+        }
+      })
+      setOffsets(map => {
+        targets.forEach(pane => {
+          map.delete(pane)
+          autoSizes.delete(pane)
+        })
+        return map
+      })
+    })
   }
 
-  function getNonFractionOverflow(element: Element, deltaPx: number): number {
-    const props = getProps(element)!
-    const offset = getOffset(element)
+  function stopTransition() {
+    if (transitionFrame === undefined) return
+    cancelAnimationFrame(transitionFrame)
+    transitionFrame = undefined
+    transitionSizes = undefined
+    setTransitionTemplate(undefined)
+  }
 
-    if (isFractionProps(props)) {
-      console.error('tried to get non-fraction overflow of fraction pane', element)
-      return 0
+  /** Runs the callback and animates the panes from their sizes before to their sizes after. */
+  function transition(callback: () => void) {
+    const transitionOptions = options.transition
+    const descriptors = panes()
+    const from = transitionSizes ?? descriptors.map(getPanePixels)
+    stopTransition()
+
+    batch(callback)
+
+    if (
+      !transitionOptions ||
+      activePanes() ||
+      !containerSize() ||
+      typeof requestAnimationFrame === 'undefined' ||
+      prefersReducedMotion() ||
+      panes() !== descriptors
+    ) {
+      return
     }
 
-    const realSize = getNonFractionPixels(props.size, offset)
-    const newSize = realSize + deltaPx
+    const to = descriptors.map(getPanePixels)
+    if (to.every((size, index) => Math.abs(size - from[index]!) < 0.5)) return
 
-    if (props.max) {
-      const realMaxSize = getNonFractionPixels(props.max)
-      if (newSize < realMaxSize) {
-        return newSize - realMaxSize
-      }
+    const { duration = 200, easing = easeInOutCubic } =
+      transitionOptions === true ? {} : transitionOptions
+    let start: number | undefined
+
+    const render = (sizes: number[]) => {
+      transitionSizes = sizes
+      setTransitionTemplate(joinTracks(sizes.map(size => `${size}px`)))
     }
-    if (props.min) {
-      const realMinSize = getNonFractionPixels(props.min)
-      if (newSize > realMinSize) {
-        return newSize - realMinSize
+    const frame = (now: number) => {
+      start ??= now
+      const progress = duration > 0 ? Math.min((now - start) / duration, 1) : 1
+      if (progress < 1) {
+        const eased = easing(progress)
+        render(from.map((size, index) => size + (to[index]! - size) * eased))
+        transitionFrame = requestAnimationFrame(frame)
+      } else {
+        stopTransition()
+        options.onTransitionEnd?.()
       }
     }
 
-    return newSize > 0 ? 0 : newSize
+    render(from)
+    transitionFrame = requestAnimationFrame(frame)
   }
 
-  const context: SplitContext = {
-    isActivePane: createSelector<ReturnType<typeof activePanels>, Element>(
-      activePanels,
-      (element, panes) => isNotHandle(element) && !!panes?.includes(element),
-    ),
-    get type() {
-      return config.type
-    },
-    dragHandleStart(handle) {
-      return setActivePanels(getNeigboringPanes(panes(), handle))
-    },
-    dragHandle([left, right], deltaPx): number | typeof NO_OVERFLOW {
-      if (deltaPx === 0) return NO_OVERFLOW
+  /** Applies a programmatic change: animated, reported through `onSizesChange` and committed. */
+  function commit(callback: () => void) {
+    // The layout is frozen while a pane is maximized.
+    if (maximized()) return
+    remeasure()
+    transition(callback)
+    emitSizes()
+    options.onCommit?.()
+  }
+
+  function emitSizes() {
+    options.onSizesChange?.(getSizes())
+    // Controlled sizes have the final word: the parent either adopted the new sizes or rejected them.
+    if (options.sizes) applySizes(options.sizes)
+  }
 
-      const leftProps = getProps(left)!
-      const rightProps = getProps(right)!
+  /** Converts a size to the given unit. */
+  function convertSize(size: PaneSize, unit: SizeUnit) {
+    if (size.unit === unit) return size.value
+    const pixels = size.value * getPixelsPerUnit(size.unit)
+    const divisor = getPixelsPerUnit(unit)
+    return divisor ? pixels / divisor : 0
+  }
 
-      const isLeftFraction = isFractionProps(leftProps)
-      const isRightFraction = isFractionProps(rightProps)
+  function getPaneSize(pane: PaneDescriptor): ResolvedPaneSize {
+    return {
+      value: getDeclaredValue(pane) - getOffset(pane),
+      unit: getUnit(getProps(pane).size),
+      px: getPanePixels(pane),
+    }
+  }
 
-      let deltaFr = deltaPx / getPixelsPerFraction()
+  function getSizes(): ResolvedPaneSize[] {
+    return panes().filter(isNotHandle).map(getPaneSize)
+  }
 
-      // Calculate the hypothetical overflow after offsetting the pane-sizes
-      const leftOverflow = !isLeftFraction
-        ? getNonFractionOverflow(left, deltaPx)
-        : getFractionOverflow(left, deltaFr) * getPixelsPerFraction()
-      const rightOverflow = !isRightFraction
-        ? getNonFractionOverflow(right, -deltaPx)
-        : getFractionOverflow(right, -deltaFr) * getPixelsPerFraction()
+  /** Offsets the panes so that they match the given sizes. Panes without a corresponding size are left as is. */
+  function applySizes(sizes: Array<PaneSize | undefined>) {
+    const targets = panes()
+      .filter(isNotHandle)
+      .map((pane, index) => {
+        const props = getProps(pane)
+        const size = sizes[index]
+        if (!size) return
+        // Converting between units requires the split to be measured, which it is not on the server.
+        // Sizes in the declared unit do not, so they are part of the server-rendered template.
+        if (!containerSize() && (isAutoProps(props) || size.unit !== getUnit(props.size))) return
+        retainAutoSize(pane)
+        return [pane, getDeclaredValue(pane) - convertSize(size, getUnit(props.size))] as const
+      })
+    setOffsets(map => {
+      targets.forEach(target => target && map.set(...target))
+      return map
+    })
+  }
 
-      // Apply negative overflow to deltaPx
-      deltaPx = leftOverflow
-        ? deltaPx - leftOverflow
-        : rightOverflow
-        ? deltaPx + rightOverflow
-        : deltaPx
+  /** Returns the closest pane in the direction, from the given index on, that matches the predicate. */
+  function findPane(
+    descriptors: PaneDescriptor[],
+    index: number,
+    direction: number,
+    predicate: (pane: PaneDescriptor) => boolean,
+  ) {
+    for (let i = index; i >= 0 && i < descriptors.length; i += direction) {
+      if (predicate(descriptors[i]!)) return descriptors[i]
+    }
+    return
+  }
 
-      // Update deltaFr to reflect the new deltaPx
-      deltaFr = deltaPx / getPixelsPerFraction()
+  /**
+   * Updates the panes. Panes that stay keep their size in px: the space of removed panes and handles goes to
+   * their neighbors, inserted panes and handles take their space from the neighbor given by `insertFrom`.
+   */
+  function updatePanes(next: PaneDescriptor[]) {
+    const previous = panes()
+    const removed = previous.filter(pane => !next.includes(pane))
+    const inserted = next.filter(pane => !previous.includes(pane))
+    if (removed.includes(maximized()!)) setMaximized(undefined)
+
+    // Controlled sizes are re-applied on their own, and sizes can not be kept before the split is measured.
+    if (
+      (!removed.length && !inserted.length) ||
+      options.preserveSizes === false ||
+      options.sizes ||
+      maximized() ||
+      !containerSize()
+    ) {
+      setPanes(next)
+      return
+    }
 
-      // Handle case where both panes are fraction panes
-      if (isLeftFraction && isRightFraction) {
-        offset(left, deltaFr)
-        offset(right, -deltaFr)
-      }
-      // Handle case where both panes are non-fraction panes
-      else if (!isLeftFraction && !isRightFraction) {
-        offset(left, isPixelProps(leftProps) ? deltaPx : (deltaPx / containerSize()) * 100)
-        offset(right, isPixelProps(rightProps) ? -deltaPx : (-deltaPx / containerSize()) * 100)
-      }
-      // Handle case where left is a fraction pane and right is a non-fraction pane
-      else if (isLeftFraction) {
-        offsetFractionAndNonFractionPane(left, right, -deltaPx)
-      }
-      // Handle case where right is a fraction pane and left is a non-fraction pane
-      else {
-        offsetFractionAndNonFractionPane(right, left, deltaPx)
+    remeasure()
+    const pixels = new Map(previous.map(pane => [pane, getPanePixels(pane)]))
+    removed.forEach(pane => {
+      if (pane.key && isNotHandle(pane) && !isCollapsed(pane)) {
+        removedSizes.set(pane.key, getPaneSize(pane))
       }
+    })
 
-      if (!leftOverflow && !rightOverflow) {
-        return NO_OVERFLOW
-      }
-      if (Math.abs(leftOverflow) > Math.abs(rightOverflow)) {
-        return leftOverflow
-      }
-      return -rightOverflow
-    },
-    dragHandleEnd() {
-      setActivePanels(undefined)
-    },
+    setPanes(next)
+
+    const isResizable = (pane: PaneDescriptor) =>
+      isNotHandle(pane) && !isCollapsed(pane) && previous.includes(pane) && next.includes(pane)
+
+    removed.forEach(pane => {
+      const index = previous.indexOf(pane)
+      const neighbors = [
+        findPane(previous, index - 1, -1, isResizable),
+        findPane(previous, index + 1, 1, isResizable),
+      ].filter((neighbor): neighbor is PaneDescriptor => !!neighbor)
+      neighbors.forEach(neighbor => {
+        const share = pixels.get(pane)! / neighbors.length
+        pixels.set(neighbor, Math.min(pixels.get(neighbor)! + share, getPaneLimits(neighbor).max))
+      })
+    })
+
+    const direction = options.insertFrom === 'previous' ? -1 : 1
+    inserted.forEach(pane => {
+      const size = pane.key !== undefined ? removedSizes.get(pane.key) : undefined
+      if (pane.key !== undefined) removedSizes.delete(pane.key)
+      // `auto`-panes can not be measured before they are rendered: they keep their intrinsic size.
+      if (!size && isAutoProps(getProps(pane))) return
+      const paneSize = size ? convertSize(size, 'px') : getPanePixels(pane)
+      const index = next.indexOf(pane)
+      const neighbor =
+        findPane(next, index + direction, direction, isResizable) ??
+        findPane(next, index - direction, -direction, isResizable)
+      pixels.set(pane, paneSize)
+      if (!neighbor) return
+      pixels.set(neighbor, Math.max(pixels.get(neighbor)! - paneSize, getPaneLimits(neighbor).min))
+    })
+
+    setPanePixels(
+      new Map(
+        next
+          .filter(pane => isNotHandle(pane) && pixels.has(pane))
+          .map(pane => [pane, pixels.get(pane)!]),
+      ),
+    )
+    emitSizes()
   }
 
-  const offspring = children(withContext(() => props.children, splitContext, context))
+  const getFractionPanes = () => panes().filter(pane => isFractionProps(getProps(pane)))
+  const getNonFractionPanes = () => panes().filter(pane => !isFractionProps(getProps(pane)))
 
-  const panes = createMemo(
-    () => offspring.toArray().filter(value => propsMap.has(value as Element)) as Element[],
+  // Sizes in px are computed once per change of the layout, instead of on every read while dragging.
+  // `auto`-panes are measured: they are re-measured at the start of each drag and programmatic resize.
+  const pixelsPerFraction = createMemo(() => (measurement(), computePixelsPerFraction()))
+  const panePixels = createMemo(
+    () => (measurement(), new Map(panes().map(pane => [pane, computePanePixels(pane)]))),
   )
-  const getFractionPanes = () => panes().filter(pane => isFractionProps(getProps(pane)!))
-  const getNonFractionPanes = () => panes().filter(pane => !isFractionProps(getProps(pane)!))
+
+  /** Joins the tracks of the panes into a template, from the last pane to the first when reversed. */
+  const joinTracks = (tracks: string[]) =>
+    (options.reverse ? [...tracks].reverse() : tracks).join(' ')
 
   const template = () =>
-    panes()
-      .map(pane => {
-        const props = getProps(pane)!
+    joinTracks(
+      panes().map(pane => {
+        const props = getProps(pane)
         const offset = getOffset(pane)
 
         if (isFractionProps(props)) {
-          return offset ? `${parseFloat(props.size) - offset}fr` : props.size
+          return getTrackTemplate(
+            props,
+            offset ? `${parseFloat(props.size) - offset}fr` : props.size,
+          )
+        }
+
+        if (isAutoProps(props)) {
+          const autoSize = autoSizes.get(pane)
+          return getTrackTemplate(props, autoSize === undefined ? 'auto' : `${autoSize - offset}px`)
         }
 
         const unit = offset
-          ? (`calc(${parseFloat(props.size) - offset}${isPixelProps(props) ? 'px' : '%'})` as const)
+          ? `calc(${parseFloat(props.size) - offset}${getUnit(props.size)})`
           : props.size
 
-        return props.min
-          ? props.max
-            ? `min(${props.min}, max(${props.max}, ${unit}))`
-            : `min(${props.min}, ${unit})`
-          : props.max
-          ? `max(${props.max}, ${unit})`
-          : unit
-      })
-      .join(' ')
+        return getTrackTemplate(props, unit)
+      }),
+    )
 
-  createEffect(() => {
-    const ref = splitRef()
-    if (!ref) return
-    const observer = new ResizeObserver(entries => {
-      for (let entry of entries) {
-        setDomRect(entry.contentRect)
-        props.onResize?.(entry.contentRect, ref)
-      }
-    })
-    observer.observe(ref)
-    onCleanup(() => observer.disconnect())
-  })
+  onCleanup(stopTransition)
 
-  createSignal(
+  // Offsets are relative to the declared size of a pane: they are reset when it changes.
+  createRenderEffect(
     mapArray(panes, pane => {
       createEffect(
         on(
-          () => getProps(pane)?.size,
+          () => getDeclaredSize(pane),
           () => {
             setOffsets(map => {
               map.set(pane, 0)
+              autoSizes.delete(pane)
               return map
             })
           },
+          { defer: true },
         ),
       )
     }),
   )
 
-  createEffect(() => props.onTemplate?.(template()))
+  createRenderEffect(on(() => options.panes, updatePanes, { defer: true }))
 
-  return (
-    <Base
-      ref={mergeRefs(setSplitRef, props)}
-      style={{
-        display: 'grid',
-        ...props.style,
-        [`grid-template-${config.type}s`]: template(),
-      }}
-      {...rest}
-    >
-      {panes()}
-    </Base>
+  createRenderEffect(
+    on(
+      [() => options.sizes, panes, containerSize],
+      ([sizes]) => sizes && transition(() => applySizes(sizes)),
+    ),
   )
-}
 
-/**********************************************************************************/
+  const split: SplitPrimitive = {
+    template: () => transitionTemplate() ?? template(),
+    getSizes,
+    getPaneSize,
+    activePanes,
+    isActivePane: createSelector<ReturnType<typeof activePanes>, PaneDescriptor>(
+      activePanes,
+      (pane, panes) => isNotHandle(pane) && !!panes?.includes(pane),
+    ),
+    getNeighboringPanes(handle) {
+      return getNeigboringPanes(panes(), handle)
+    },
+    getPanePixels,
+    getPaneLimits,
+    getHandlePosition(handle) {
+      const descriptors = panes()
+      return descriptors
+        .slice(0, descriptors.indexOf(handle))
+        .reduce((total, pane) => total + getPanePixels(pane), 0)
+    },
+    getSnapPositions(handle, snapPoints) {
+      return snapPoints.flatMap(snapPoint => {
+        if (snapPoint !== 'default') return getNonFractionPixels(snapPoint)
+        const left = getNeigboringPanes(panes(), handle)?.[0]
+        if (!left) return []
+        const size = getDeclaredSize(left)
+        const declaredPixels = convertSize(
+          { value: getDeclaredValue(left, size), unit: getUnit(size) },
+          'px',
+        )
+        return split.getHandlePosition(handle) - getPanePixels(left) + declaredPixels
+      })
+    },
+    isCollapsed,
+    collapse(pane, neighbors = getAdjacentPanes(panes(), pane)) {
+      if (!neighbors) return
+      commit(() => collapsePane(pane, neighbors))
+    },
+    expand(pane, neighbors = getAdjacentPanes(panes(), pane)) {
+      if (!neighbors) return
+      commit(() => expandPane(pane, neighbors))
+    },
+    reset(targets) {
+      commit(() => resetPanes(targets))
+    },
+    equalize(neighbors) {
+      const [left, right] = neighbors
+      commit(() => resizePane(left, neighbors, (getPanePixels(left) + getPanePixels(right)) / 2))
+    },
+    fit(pane, neighbors) {
+      const pixels = pane.measureContent?.()
+      if (pixels === undefined) return
+      commit(() => resizePane(pane, neighbors, pixels))
+    },
+    dragHandleStart(handle) {
+      if (maximized()) return
+      stopTransition()
+      remeasure()
+      dragOrigins = new WeakMap()
+      // All panes are included: cascading drags resize panes beyond the neighbors of the handle.
+      dragSnapshot = panes().map(pane => ({
+        pane,
+        offset: offsets().get(pane),
+        collapsedSize: collapsedPanes().get(pane),
+        autoSize: autoSizes.get(pane),
+      }))
+      return setActivePanes(getNeigboringPanes(panes(), handle))
+    },
+    dragHandle(neighbors, deltaPx) {
+      // The offsets of all affected panes are committed at once: the template is updated once per move.
+      const overflow = batch(() => moveHandle(neighbors, deltaPx))
+      emitSizes()
+      return overflow
+    },
+    dragHandleEnd() {
+      dragSnapshot = undefined
+      setActivePanes(undefined)
+      options.onCommit?.()
+    },
+    dragHandleCancel() {
+      const snapshot = dragSnapshot
+      dragSnapshot = undefined
+      if (snapshot) {
+        const collapsed = snapshot.filter(
+          ({ pane, collapsedSize }) => !!collapsedSize !== isCollapsed(pane),
+        )
+        batch(() => {
+          setOffsets(map => {
+            snapshot.forEach(({ pane, offset }) =>
+              offset === undefined ? map.delete(pane) : map.set(pane, offset),
+            )
+            return map
+          })
+          setCollapsedPanes(map => {
+            snapshot.forEach(({ pane, collapsedSize }) =>
+              collapsedSize ? map.set(pane, collapsedSize) : map.delete(pane),
+            )
+            return map
+          })
+          snapshot.forEach(({ pane, autoSize }) =>
+            autoSize === undefined ? autoSizes.delete(pane) : autoSizes.set(pane, autoSize),
+          )
+          setActivePanes(undefined)
+        })
+        // Panes that were collapsed or expanded during the drag are reported to be expanded or collapsed again.
+        collapsed.forEach(({ pane, collapsedSize }) =>
+          collapsedSize ? pane.onCollapse?.() : pane.onExpand?.(),
+        )
+        emitSizes()
+      } else {
+        setActivePanes(undefined)
+      }
+    },
+    setSize(pane, size) {
+      const neighbors = getAdjacentPanes(panes(), pane)
+      if (!neighbors) return
+      const paneSize =
+        typeof size === 'string' ? { value: parseFloat(size), unit: getUnit(size) } : size
+      commit(() => resizePane(pane, neighbors, convertSize(paneSize, 'px')))
+    },
+    resizeBy(handle, deltaPx) {
+      const neighbors = getNeigboringPanes(panes(), handle)
+      if (!neighbors) return
+      commit(() => moveHandle(neighbors, deltaPx))
+    },
+    distributeEvenly() {
+      const resizablePanes = panes().filter(pane => isNotHandle(pane) && !isCollapsed(pane))
+      const total = resizablePanes.reduce((total, pane) => total + getPanePixels(pane), 0)
+      const pixels = total / resizablePanes.length
+      // Resize pane by pane: each pane trades space with the next one.
+      commit(() =>
+        resizablePanes.slice(0, -1).forEach((pane, index) => {
+          resizePane(pane, [pane, resizablePanes[index + 1]!], pixels)
+        }),
+      )
+    },
+    maximized,
+    maximize(pane) {
+      if (pane === maximized()) return
+      transition(() => setMaximized(pane))
+    },
+    serialize() {
+      return panes()
+        .filter(isNotHandle)
+        .map(pane => {
+          const size = getDeclaredSize(pane)
+          const collapsedSize = collapsedPanes().get(pane)
+          return {
+            size,
+            value: collapsedSize
+              ? collapsedSize.value
+              : getDeclaredValue(pane, size) - getStoredOffset(pane),
+            collapsed: collapsedSize && true,
+          }
+        })
+    },
+    restore(layout) {
+      const layoutPanes = panes().filter(isNotHandle)
+      // Stored layouts are discarded when the panes have been added, removed, reordered or resized since.
+      if (
+        !Array.isArray(layout) ||
+        layout.length !== layoutPanes.length ||
+        !layout.every(
+          (entry, index) =>
+            entry?.size === getDeclaredSize(layoutPanes[index]!) &&
+            typeof entry.value === 'number' &&
+            isFinite(entry.value),
+        )
+      ) {
+        return false
+      }
+      const storedLayout = layout as StoredLayout
+      batch(() => {
+        // Panes are expanded first, so that the stored sizes apply to their declared units.
+        storedLayout.forEach((entry, index) => {
+          const pane = layoutPanes[index]!
+          if (!entry.collapsed && isCollapsed(pane)) {
+            setCollapsedPanes(map => (map.delete(pane), map))
+            pane.onExpand?.()
+          }
+        })
+        applySizes(
+          storedLayout.map(({ size, value, collapsed }) =>
+            collapsed ? undefined : { value, unit: getUnit(size) },
+          ),
+        )
+        storedLayout.forEach(({ size, value, collapsed }, index) => {
+          const pane = layoutPanes[index]!
+          if (!collapsed || !isCollapsible(pane)) return
+          const wasCollapsed = isCollapsed(pane)
+          setCollapsedPanes(map => map.set(pane, { value, unit: getUnit(size) }))
+          setOffsets(map => map.set(pane, 0))
+          if (!wasCollapsed) pane.onCollapse?.()
+        })
+      })
+      emitSizes()
+      return true
+    },
+  }
+
+  return split
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Base                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+type BaseProps = Omit<ComponentProps<'span'>, 'style'> & {
+  style?: JSX.CSSProperties
+} & OptionalSizeProps
+
+/**
+ * Internal base-component
+ */
+function Base(props: BaseProps & { pane?: Omit<PaneDescriptor, keyof SizeProps | 'id'> }) {
+  const context = useSplit()
+  const [, rest] = splitProps(props, ['size', 'min', 'max', 'style', 'ref', 'id', 'pane'])
+  const id = createUniqueId()
+  // A signal instead of a plain ref: the element does not exist while rendering on the server.
+  const [element, setElement] = createSignal<HTMLSpanElement>()
+
+  const descriptor = mergeProps(props.pane, {
+    get size() {
+      return props.size ?? '1fr'
+    },
+    get min() {
+      return props.min
+    },
+    get max() {
+      return props.max
+    },
+    get id() {
+      return props.id || id
+    },
+    get key() {
+      return props.id
+    },
+    measure() {
+      const pane = element()
+      if (isServer || !pane) return 0
+      return pane.getBoundingClientRect()[context?.type === 'row' ? 'height' : 'width']
+    },
+    measureContent() {
+      const pane = element()
+      if (!pane) return 0
+      const { style } = pane
+      const [dimension, alignment] =
+        context?.type === 'row'
+          ? (['height', 'align-self'] as const)
+          : (['width', 'justify-self'] as const)
+      const previous = [
+        style.getPropertyValue(dimension),
+        style.getPropertyValue(alignment),
+      ] as const
+      style.setProperty(dimension, 'max-content')
+      style.setProperty(alignment, 'start')
+      const pixels = pane.getBoundingClientRect()[dimension]
+      style.setProperty(dimension, previous[0])
+      style.setProperty(alignment, previous[1])
+      return pixels
+    },
+  }) as PaneDescriptor
+
+  const pane = (
+    <span
+      style={{ overflow: 'hidden', ...props.style }}
+      {...rest}
+      ref={mergeRefs(props, setElement)}
+      id={descriptor.id}
+      data-active-pane={context?.split()?.isActivePane(descriptor) || undefined}
+      data-maximized={context?.split()?.maximized() === descriptor || undefined}
+      data-collapsed={context?.split()?.isCollapsed(descriptor) || undefined}
+    >
+      {props.children}
+    </span>
+  )
+
+  paneMap.set(pane as Element, descriptor)
+  elementMap.set(descriptor, pane as Element)
+  return pane
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Split                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Move of a handle, as reported to the resize lifecycle-events. */
+export interface ResizeEvent {
+  handle: Element
+  /** Neighboring panes of the handle. */
+  panes: readonly [Element, Element]
+  /** Sizes of the panes when the handle started moving. */
+  before: readonly [ResolvedPaneSize, ResolvedPaneSize]
+  /** Sizes of the panes after the move. */
+  after: readonly [ResolvedPaneSize, ResolvedPaneSize]
+  /** Sizes of all panes of the Split after the move (handles excluded): fractions beyond the neighbors can change too. */
+  sizes: ResolvedPaneSize[]
+  /** Whether the handle was held back by the `min` or `max` of the panes. */
+  clamped: boolean
+}
+
+interface ResizeEventProps {
+  /** Called when a handle starts moving, by pointer or by keyboard. */
+  onResizeStart?: (event: ResizeEvent) => void
+  /** Called after each move of a handle. */
+  onResizing?: (event: ResizeEvent) => void
+  /** Called when a handle stops moving. */
+  onResizeEnd?: (event: ResizeEvent) => void
+}
+
+type SplitContext = ResizeEventProps & {
+  /** Headless split of the panes, available once they are collected. */
+  split: () => SplitPrimitive | undefined
+  /** Saves the layout of the closest Split with a `storageKey`. */
+  persist: () => void
+  /** Maximizes the pane, together with the Split within its parent Splits. Restores them without a pane. */
+  maximize: (pane: PaneDescriptor | undefined) => void
+  snapPoints: SnapPoint[] | undefined
+  snapThreshold: number | undefined
+  step: number | undefined
+  type: 'column' | 'row'
+  /** Whether the handles move against the axis: in reversed Splits, and in columns laid out right-to-left. */
+  isReversed: () => boolean
+}
+
+const splitContext = createContext<SplitContext>()
+function useSplit() {
+  const context = useContext(splitContext)
+  return context
+}
+
+/** Imperative api of a Split. Panes are indexed without handles, handles are indexed without panes. */
+export interface SplitApi {
+  getSizes: () => ResolvedPaneSize[]
+  /** Resizes the pane, taking the space from (or giving it to) its adjacent pane. */
+  setSize: (pane: number | Element, size: PaneSize | FractionValue | LengthValue) => void
+  /** Moves the handle by the given amount of px, as if it was dragged. */
+  resizeBy: (handle: number, deltaPx: number) => void
+  /** Resets all panes to their declared size and expands collapsed panes. */
+  reset: () => void
+  /** Gives all panes that are not collapsed the same size. */
+  distributeEvenly: () => void
+  /** Maximizes the pane within the Split, and the Split within its parent Splits. */
+  maximize: (pane: number | Element) => void
+  /** Restores the layout from before maximizing a pane, in the Split and its parent Splits. */
+  restore: () => void
+}
+
+export interface TransitionOptions {
+  /** Duration of the transition in ms. Defaults to 200. */
+  duration?: number
+  /** Maps the progress of the transition, from 0 to 1, to the progress of the sizes. Defaults to ease-in-out. */
+  easing?: (progress: number) => number
+}
+
+type SplitProps = Omit<ComponentProps<'span'>, 'style' | 'onTransitionEnd'> &
+  OptionalSizeProps &
+  SnapProps &
+  ResizeEventProps & {
+    type?: 'column' | 'row'
+    style?: JSX.CSSProperties
+    onTemplate?: (template: string) => void
+    onResize?: (size: DOMRect, element: HTMLSpanElement) => void
+    /** Controlled sizes of the panes (handles excluded), in order of appearance. */
+    sizes?: PaneSize[]
+    /** Called with the resolved sizes of the panes (handles excluded) whenever a handle moves them. */
+    onSizesChange?: (sizes: ResolvedPaneSize[]) => void
+    /** Key under which the layout, nested Splits included, is persisted. Enables persistence. */
+    storageKey?: string
+    /** Storage-adapter used to persist the layout. Defaults to `localStorage`. */
+    storage?: SplitStorage
+    /** Called on creation with the imperative api of the Split. */
+    api?: (api: SplitApi) => void
+    /** Passes the remaining delta on to the next panes once a neighboring pane reaches its limit. */
+    cascade?: boolean
+    /** Keeps the sizes of the panes when panes are inserted or removed. Defaults to `true`. */
+    preserveSizes?: boolean
+    /** Neighbor an inserted pane takes its space from. Defaults to `next`. */
+    insertFrom?: 'previous' | 'next'
+    /** Animates programmatic resizes, f.ex. collapsing, resetting or the `api`. */
+    transition?: boolean | TransitionOptions
+    /** Called when an animated resize completes. */
+    onTransitionEnd?: () => void
+    /** Lays the panes out from the end: from the bottom for rows, from the right for columns. */
+    reverse?: boolean
+  }
+
+/**
+ * A Split component that creates a resizable container with panes, based on CSS Grid.
+ * It allows for dynamic resizing of panes either in a column or row layout.
+ *
+ * This component generates a CSS Grid template, which means all valid CSS Grid size units are supported,
+ * such as `fr` (fraction), `px` (pixels), `%` (percentage), `rem`, `em`, `vw`, `vh` and `ch`.
+ * `auto`-panes are sized to their content until they are resized, `minmax(min, max)`-panes take `max` as size
+ * and `min` as their minimum.
+ *
+ * Split components can be nested to create more complex layouts.
+ *
+ * @param props - The props for the Split component.
+ * @param [props.type='column'] - The direction of the split, either `column` or `row`.
+ * @param [props.style] - The CSS style applied to the grid container.
+ * @param [props.sizes] - Controlled sizes of the panes. When set, they are the source of truth and
+ * `onSizesChange` should be used to update them.
+ * @param [props.onSizesChange] - Called with the resolved sizes of the panes after each move of a handle.
+ * Each size is reported in the pane's declared unit, together with its size in px.
+ * @param [props.storageKey] - Persists the layout under this key after each drag and restores it on creation.
+ * The layouts of nested Splits are included.
+ * @param [props.storage=localStorage] - Storage-adapter used to persist the layout. Async adapters are supported,
+ * but can only restore the layout after the first paint.
+ * @param [props.api] - Called on creation with the imperative api of the Split. Programmatic resizes
+ * are subject to the same constraints as dragging a handle.
+ * @param [props.cascade=false] - When a pane reaches its limit while dragging, the handle keeps pushing the
+ * next panes in the direction of travel.
+ * @param [props.preserveSizes=true] - Keeps the sizes of the panes when panes are inserted or removed, f.ex. with
+ * `<Show>` or `<For>`: the space of a removed pane goes to its neighbors and an inserted pane takes its space from
+ * the neighbor given by `insertFrom`, while the other panes keep their size. Reordered panes keep their size as well.
+ * A pane with an `id` that is removed and inserted again gets back the size it had when it was removed.
+ * @param [props.insertFrom='next'] - Neighbor an inserted pane takes its space from, `previous` or `next`.
+ * Falls back to the other neighbor when there is none.
+ * @param [props.step] - Grid in px the handles are quantized to while dragging, and amount of px they move
+ * with the arrow-keys. Can be overwritten per handle.
+ * @param [props.snapPoints] - Positions the handles snap to while dragging: px or % measured from the start of the
+ * Split, or `default` for the position at which the preceding pane has its declared size. Can be overwritten per handle.
+ * @param [props.snapThreshold=10] - Distance in px from which handles snap to a snap point.
+ * @param [props.transition=false] - Animates programmatic resizes (collapsing, expanding, resetting, the `api`
+ * and controlled `sizes`) by interpolating the sizes of the panes. Pointer-drags are never animated,
+ * and neither is anything when the user prefers reduced motion.
+ * @param [props.onTransitionEnd] - Called when an animated resize completes.
+ * @param [props.reverse=false] - Lays the panes out from the end of the Split, f.ex. anchored to the bottom for rows.
+ * The panes are rendered in reverse order, so the order of the DOM follows the layout.
+ * Columns follow the writing direction: in a right-to-left document they are laid out from the right.
+ * @param [props.onResizeStart] - Called when one of the handles starts moving, by pointer or by keyboard.
+ * @param [props.onResizing] - Called after each move of one of the handles.
+ * @param [props.onResizeEnd] - Called when one of the handles stops moving. Each event reports the handle,
+ * its neighboring panes, their sizes before and after, and whether the handle was clamped by their limits.
+ * @returns The Split component containing panes.
+ *
+ * @example
+ * <Split style={{ height: '100vh' }}>
+ *  <Split type="row" style={{ height: '100vh' }}>
+ *    <Split.Pane size="1fr">Top Pane</Split.Pane>
+ *    <Split.Handle size="10px" />
+ *    <Split.Pane size="2fr">Bottom Pane</Split.Pane>
+ *  </Split>
+ *   <Split.Pane size="1fr">Left Pane</Split.Pane>
+ *   <Split.Handle size="10px" />
+ *   <Split.Pane size="2fr">Right Pane</Split.Pane>
+ * </Split>
+ *
+ * @warning The `max` of fraction-based sizes (`fr`) is only enforced while dragging: CSS Grid can not express it.
+ * @warning All elements that are not `Grid`, `Grid.Handle` or `Grid.Pane` are filtered from the children.
+ */
+export function Split(props: SplitProps) {
+  const config = mergeProps({ type: 'column' as const }, props)
+  const [, rest] = splitProps(props, [
+    'type',
+    'style',
+    'ref',
+    'sizes',
+    'onSizesChange',
+    'storageKey',
+    'storage',
+    'api',
+    'cascade',
+    'preserveSizes',
+    'insertFrom',
+    'step',
+    'snapPoints',
+    'snapThreshold',
+    'transition',
+    'onTransitionEnd',
+    'onResizeStart',
+    'onResizing',
+    'onResizeEnd',
+    'reverse',
+  ])
+  const parent = useSplit()
+  const [domRect, setDomRect] = createSignal<DOMRect>()
+  const [splitRef, setSplitRef] = createSignal<HTMLSpanElement>()
+  const [primitive, setPrimitive] = createSignal<SplitPrimitive>()
+  /** Descriptor of the Split as a pane of its parent Split. */
+  let descriptor: PaneDescriptor | undefined = undefined
+
+  const context: SplitContext = {
+    split: primitive,
+    get type() {
+      return config.type
+    },
+    get snapPoints() {
+      return props.snapPoints
+    },
+    get snapThreshold() {
+      return props.snapThreshold
+    },
+    get step() {
+      return props.step
+    },
+    isReversed() {
+      const rightToLeft = config.type === 'column' && isRightToLeft(splitRef())
+      return !!props.reverse !== rightToLeft
+    },
+    get onResizeStart() {
+      return props.onResizeStart
+    },
+    get onResizing() {
+      return props.onResizing
+    },
+    get onResizeEnd() {
+      return props.onResizeEnd
+    },
+    persist() {
+      if (!props.storageKey) return parent?.persist()
+      const storage = props.storage || getDefaultStorage()
+      if (!storage) return
+      const layout = JSON.stringify(controller.serialize())
+      // Failing to persist (f.ex. exceeding the quota) should not break resizing.
+      Promise.resolve()
+        .then(() => storage.setItem(props.storageKey!, layout))
+        .catch(() => {})
+    },
+    maximize(pane) {
+      split.maximize(pane)
+      parent?.maximize(pane && descriptor)
+    },
+  }
+
+  const offspring = children(withContext(() => props.children, splitContext, context))
+
+  const panes = createMemo(
+    () => offspring.toArray().filter(value => paneMap.has(value as Element)) as Element[],
+  )
+  const descriptors = createMemo(() => panes().map(pane => paneMap.get(pane)!))
+
+  const split = createSplit({
+    get panes() {
+      return descriptors()
+    },
+    get containerSize() {
+      return (config.type === 'column' ? domRect()?.width : domRect()?.height) || 0
+    },
+    get element() {
+      return splitRef()
+    },
+    get sizes() {
+      return props.sizes
+    },
+    get onSizesChange() {
+      return props.onSizesChange
+    },
+    get cascade() {
+      return props.cascade
+    },
+    get preserveSizes() {
+      return props.preserveSizes
+    },
+    get insertFrom() {
+      return props.insertFrom
+    },
+    get reverse() {
+      return props.reverse
+    },
+    get transition() {
+      return props.transition
+    },
+    get onTransitionEnd() {
+      return props.onTransitionEnd
+    },
+    onCommit: () => context.persist(),
+  })
+  setPrimitive(split)
+
+  const controller: SplitController = {
+    serialize() {
+      const layoutPanes = descriptors().filter(isNotHandle)
+      return split.serialize().map((entry, index) => ({
+        ...entry,
+        children: splitMap.get(layoutPanes[index]!)?.serialize(),
+      }))
+    },
+    restore(layout) {
+      const layoutPanes = descriptors().filter(isNotHandle)
+      if (!split.restore(layout)) return
+      ;(layout as StoredLayout).forEach(({ children }, index) => {
+        if (children) splitMap.get(layoutPanes[index]!)?.restore(children)
+      })
+    },
+  }
+
+  createEffect(() => {
+    const ref = splitRef()
+    if (!ref) return
+    const observer = new ResizeObserver(entries => {
+      for (let entry of entries) {
+        setDomRect(entry.contentRect)
+        props.onResize?.(entry.contentRect, ref)
+      }
+    })
+    observer.observe(ref)
+    onCleanup(() => observer.disconnect())
+  })
+
+  createEffect(() => props.onTemplate?.(split.template()))
+
+  if (props.storageKey) {
+    const key = props.storageKey
+    // Layouts are not restored once the user started resizing the panes.
+    let dragged = false
+    createRenderEffect(on(split.activePanes, active => active && (dragged = true), { defer: true }))
+
+    const restore = (value: string | null | undefined) => {
+      if (!value || dragged) return
+      try {
+        controller.restore(JSON.parse(value))
+      } catch (_error) {
+        // Corrupt layouts are ignored.
+      }
+    }
+
+    const storage = props.storage || getDefaultStorage()
+    try {
+      // Synchronous storages are restored before the first paint.
+      const value = storage?.getItem(key)
+      if (value instanceof Promise) value.then(restore, () => {})
+      else restore(value)
+    } catch (_error) {
+      // Inaccessible storages are ignored.
+    }
+  }
+
+  const api: SplitApi = {
+    getSizes: split.getSizes,
+    setSize(target, size) {
+      const pane =
+        typeof target === 'number' ? descriptors().filter(isNotHandle)[target] : paneMap.get(target)
+      if (!pane) return
+      split.setSize(pane, size)
+    },
+    resizeBy(index, deltaPx) {
+      const handle = descriptors().filter(pane => !isNotHandle(pane))[index]
+      if (!handle) return
+      split.resizeBy(handle, deltaPx)
+    },
+    reset() {
+      split.reset(descriptors())
+    },
+    distributeEvenly: split.distributeEvenly,
+    maximize(target) {
+      const pane =
+        typeof target === 'number' ? descriptors().filter(isNotHandle)[target] : paneMap.get(target)
+      if (pane) context.maximize(pane)
+    },
+    restore() {
+      context.maximize(undefined)
+    },
+  }
+  props.api?.(api)
+
+  const element = (
+    <Base
+      ref={mergeRefs(setSplitRef, props)}
+      style={{
+        display: 'grid',
+        ...props.style,
+        [`grid-template-${config.type}s`]: split.template(),
+      }}
+      {...rest}
+    >
+      {props.reverse ? [...panes()].reverse() : panes()}
+    </Base>
+  ) as unknown as Nested<Element>
+  descriptor = paneMap.get(resolveNode(element))!
+  splitMap.set(descriptor, controller)
+  return element as unknown as Element
+}
+
+/**********************************************************************************/
 /*                                                                                */
 /*                                       Pane                                     */
 /*                                                                                */
 /**********************************************************************************/
 
-function Pane(props: BaseProps) {
+export interface PaneApi {
+  collapse: () => void
+  expand: () => void
+  toggle: () => void
+  isCollapsed: () => boolean
+  /** Maximizes the pane within its Split, and its Split within the parent Splits. */
+  maximize: () => void
+  /** Restores the layout from before maximizing. */
+  restore: () => void
+  isMaximized: () => boolean
+}
+
+type PaneProps = BaseProps &
+  CollapseProps & {
+    /** Called on creation with functions to collapse, expand and maximize the pane. */
+    api?: (api: PaneApi) => void
+  }
+
+/**
+ * A Pane component that holds content within a Split container.
+ *
+ * Collapsible panes snap to their `collapsedSize` when they are dragged below their `collapseThreshold`,
+ * and expand again when they are dragged past it. They also toggle when their handle is double-clicked
+ * or when `Enter` is pressed while their handle is focused. Expanding restores the size before collapsing.
+ *
+ * @param props - The props for the Pane component.
+ * @param [props.collapsible] - Allows the pane to collapse.
+ * @param [props.collapsedSize='0px'] - Size of the pane while collapsed.
+ * @param [props.collapseThreshold='50px'] - Size below which the pane collapses while dragging.
+ * @param [props.api] - Called on creation with functions to collapse, expand and maximize the pane.
+ * Maximizing a pane gives it all space of its Split, and of the parent Splits, until the layout is restored.
+ * @returns The Pane component, with a `data-collapsed` attribute while collapsed and a `data-maximized`
+ * attribute while maximized.
+ *
+ * @example
+ * <Split.Pane size="200px" collapsible collapsedSize="40px" onCollapse={() => console.log('collapsed')} />
+ */
+function Pane(props: PaneProps) {
   const context = useSplit()
   if (!context) throw `Split.Pane should be used within a Split-component`
-  return <Base {...props} />
+  const [collapseProps, , rest] = splitProps(
+    props,
+    ['collapsible', 'collapsedSize', 'collapseThreshold', 'onCollapse', 'onExpand'],
+    ['api'],
+  )
+  const pane = (<Base {...rest} pane={collapseProps} />) as unknown as Nested<Element>
+  const descriptor = paneMap.get(resolveNode(pane))!
+  const collapsed = () => !!context.split()?.isCollapsed(descriptor)
+
+  const api: PaneApi = {
+    collapse: () => context.split()?.collapse(descriptor),
+    expand: () => context.split()?.expand(descriptor),
+    toggle: () => (collapsed() ? api.expand() : api.collapse()),
+    isCollapsed: collapsed,
+    maximize: () => context.maximize(descriptor),
+    restore: () => context.maximize(undefined),
+    isMaximized: () => context.split()?.maximized() === descriptor,
+  }
+  props.api?.(api)
+
+  return pane as unknown as Element
 }
 
 /**********************************************************************************/
@@ -557,12 +1896,51 @@ function Pane(props: BaseProps) {
 /*                                                                                */
 /**********************************************************************************/
 
+/**
+ * Behavior of a handle when it is double-clicked:
+ * - `collapse`: toggles the collapsible neighboring pane
+ * - `reset`: resets the neighboring panes to their declared size
+ * - `equalize`: divides the combined size of the neighboring panes evenly
+ * - `fit`: resizes the preceding pane to the intrinsic size of its content
+ */
+export type DoubleClickBehavior = 'collapse' | 'reset' | 'equalize' | 'fit'
+
+type HandleProps = BaseProps &
+  SnapProps &
+  ResizeEventProps & {
+    /** Amount of px the handle moves with the arrow-keys while holding shift. Defaults to 100. */
+    largeStep?: number
+    /** Behavior when the handle is double-clicked, or a callback to implement a custom behavior. */
+    onDoubleClick?:
+      | DoubleClickBehavior
+      | ((event: MouseEvent, neighbors: readonly [Element, Element]) => void)
+  }
+
 /**
  * A Handle component that allows the user to resize the neighboring panes within a Split container.
  *
  * The Handle adjusts the sizes of the adjacent panes based on user interaction.
+ * It is focusable and exposes itself as an ARIA `separator`: the arrow-keys move the handle by `step`
+ * (or `largeStep` while holding shift), `Home` and `End` move it to its limits.
+ * Pressing `Enter` toggles a collapsible neighboring pane.
+ * Mouse, touch and pen are supported through pointer-events: the handle sets `touch-action: none`,
+ * so touch-drags resize the panes instead of scrolling the page.
+ * While dragging, the handle is quantized to `step` and snaps to `snapPoints` within `snapThreshold`,
+ * and gets a `data-snapped` attribute while it is snapped.
  *
  * @param props - The props for the Handle component.
+ * @param [props.step] - Grid in px drags are quantized to, and amount of px the handle moves with the arrow-keys
+ * (defaults to 10 for the arrow-keys). Defaults to the `step` of the Split.
+ * @param [props.largeStep=100] - Amount of px the handle moves with the arrow-keys while holding shift.
+ * @param [props.onDoubleClick] - Behavior when the handle is double-clicked: `collapse`, `reset`, `equalize` or `fit`,
+ * or a callback receiving the event and the neighboring panes. Defaults to `collapse` when a neighboring pane is
+ * collapsible, and to `reset` otherwise.
+ * @param [props.snapPoints] - Positions the handle snaps to while dragging. Defaults to the `snapPoints` of the Split.
+ * @param [props.snapThreshold=10] - Distance in px from which the handle snaps to a snap point. Defaults to the
+ * `snapThreshold` of the Split.
+ * @param [props.onResizeStart] - Called when the handle starts moving, by pointer or by keyboard.
+ * @param [props.onResizing] - Called after each move of the handle.
+ * @param [props.onResizeEnd] - Called when the handle stops moving, f.ex. to relayout expensive content once.
  * @returns The Handle component.
  *
  * @example
@@ -570,50 +1948,1023 @@ function Pane(props: BaseProps) {
  *
  * @warning If placed on the edge of a Split layout, the Handle will be ignored.
  * @warning If two handles are placed next to each other, they both control the same neighboring panes.
- * @warning Fraction-based sizes (`fr`) cannot have `min` or `max` constraints.
  */
-function Handle(props: BaseProps) {
+function Handle(props: HandleProps) {
   const context = useSplit()
   if (!context) throw `Split.Handle should be used within a Split-component`
+  const config = mergeProps(
+    {
+      largeStep: 100,
+      get step() {
+        return context.step
+      },
+      get snapPoints() {
+        return context.snapPoints
+      },
+      get snapThreshold() {
+        return context.snapThreshold ?? 10
+      },
+    },
+    props,
+  )
+  const [, rest] = splitProps(props, [
+    'step',
+    'largeStep',
+    'snapPoints',
+    'snapThreshold',
+    'onDoubleClick',
+    'onResizeStart',
+    'onResizing',
+    'onResizeEnd',
+  ])
   const [active, setActive] = createSignal(false)
+  const [snapped, setSnapped] = createSignal(false)
+  let descriptor: PaneDescriptor | undefined = undefined
+
+  const neighbors = createMemo(() => {
+    const split = context.split()
+    if (!split || !descriptor) return
+    return split.getNeighboringPanes(descriptor)
+  })
+
+  /** Position of the handle as a percentage of the combined size of its neighboring panes. */
+  const range = createMemo(() => {
+    const split = context.split()
+    const panes = neighbors()
+    if (!split || !panes) return
+    const [left, right] = panes
+    return getSeparatorRange(
+      split.getPanePixels(left),
+      split.getPanePixels(right),
+      split.getPaneLimits(left),
+      split.getPaneLimits(right),
+    )
+  })
+
+  /** Toggles the collapsed neighboring pane, or else the first collapsible neighboring pane. */
+  const toggleCollapse = () => {
+    const split = context.split()
+    const panes = neighbors()
+    if (!split || !panes) return false
+    const collapsed = panes.find(split.isCollapsed)
+    if (collapsed) {
+      split.expand(collapsed, panes)
+      return true
+    }
+    const collapsible = panes.find(isCollapsible)
+    if (collapsible) {
+      split.collapse(collapsible, panes)
+      return true
+    }
+    return false
+  }
+
+  /** Quantizes the position of the handle to `step` and snaps it to the closest snap point within `snapThreshold`. */
+  const snap = (split: SplitPrimitive, handle: PaneDescriptor, position: number) => {
+    if (config.step) {
+      position = Math.round(position / config.step) * config.step
+    }
+    let closest: number | undefined = undefined
+    if (config.snapPoints) {
+      for (const snapPosition of split.getSnapPositions(handle, config.snapPoints)) {
+        const distance = Math.abs(snapPosition - position)
+        if (distance > config.snapThreshold) continue
+        if (closest === undefined || distance < Math.abs(closest - position)) {
+          closest = snapPosition
+        }
+      }
+    }
+    setSnapped(closest !== undefined)
+    return closest ?? position
+  }
+
+  /** Starts moving the handle: each move is reported to the lifecycle-events of the handle and the Split. */
+  const startResize = (split: SplitPrimitive, handle: PaneDescriptor) => {
+    const neighbors = split.dragHandleStart(handle)
+    if (!neighbors) return
+    const getSizes = () =>
+      [split.getPaneSize(neighbors[0]), split.getPaneSize(neighbors[1])] as const
+    const before = getSizes()
+    const emit = (type: keyof ResizeEventProps, clamped: boolean) => {
+      const event: ResizeEvent = {
+        handle: elementMap.get(handle)!,
+        panes: [elementMap.get(neighbors[0])!, elementMap.get(neighbors[1])!],
+        before,
+        after: getSizes(),
+        sizes: split.getSizes(),
+        clamped,
+      }
+      props[type]?.(event)
+      context[type]?.(event)
+    }
+    emit('onResizeStart', false)
+    return {
+      move(deltaPx: number) {
+        const overflow = split.dragHandle(neighbors, deltaPx)
+        emit('onResizing', overflow !== NO_OVERFLOW)
+        return overflow
+      },
+      end(clamped: boolean) {
+        split.dragHandleEnd()
+        emit('onResizeEnd', clamped)
+      },
+      /** Ends the move, restoring the sizes from before. */
+      cancel() {
+        split.dragHandleCancel()
+        emit('onResizeEnd', false)
+      },
+    }
+  }
+
+  const moveBy = (deltaPx: number) => {
+    const split = context.split()
+    if (!split || !descriptor) return
+    const resize = startResize(split, descriptor)
+    if (!resize) return
+    resize.end(resize.move(deltaPx) !== NO_OVERFLOW)
+  }
+
+  // While a pane is maximized the handles take up no space: they are taken out of the tab-order as well.
+  const hidden = () => !!context.split()?.maximized()
+
   const handle = (
     <Base
-      {...props}
+      pane={{ handle: true }}
+      role="separator"
+      {...rest}
+      tabIndex={hidden() ? -1 : props.tabIndex ?? 0}
+      aria-hidden={hidden() || undefined}
+      aria-orientation={context.type === 'column' ? 'vertical' : 'horizontal'}
+      aria-valuenow={range()?.now}
+      aria-valuemin={range()?.min}
+      aria-valuemax={range()?.max}
+      aria-controls={neighbors()
+        ?.map(pane => pane.id)
+        .join(' ')}
       data-active-handle={active() || undefined}
-      onPointerDown={async e => {
-        let totalOverflow = {
-          x: 0,
-          y: 0,
+      data-snapped={snapped() || undefined}
+      onDblClick={e => {
+        const split = context.split()
+        const panes = neighbors()
+        if (!split || !panes) return
+        const behavior = props.onDoubleClick
+        if (typeof behavior === 'function') {
+          return behavior(e, [elementMap.get(panes[0])!, elementMap.get(panes[1])!])
         }
+        switch (behavior ?? (panes.some(isCollapsible) ? 'collapse' : 'reset')) {
+          case 'collapse':
+            return toggleCollapse()
+          case 'reset':
+            return split.reset(panes)
+          case 'equalize':
+            return split.equalize(panes)
+          case 'fit':
+            return split.fit(panes[0], panes)
+        }
+      }}
+      onKeyDown={e => {
+        const split = context.split()
+        const panes = neighbors()
+        if (!split || !panes) return
+        const arrows =
+          context.type === 'column' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowUp', 'ArrowDown']
+        // The arrows follow the screen: in reversed Splits they move the handle towards the first pane.
+        const [decrement, increment] = context.isReversed() ? arrows.reverse() : arrows
+        const step = e.shiftKey ? config.largeStep : config.step ?? 10
+        // Moving the handle over the combined size of both panes is guaranteed to hit the limits.
+        const total = split.getPanePixels(panes[0]) + split.getPanePixels(panes[1])
+
+        switch (e.key) {
+          case decrement:
+            moveBy(-step)
+            break
+          case increment:
+            moveBy(step)
+            break
+          case 'Home':
+            moveBy(-total)
+            break
+          case 'End':
+            moveBy(total)
+            break
+          case 'Enter':
+            if (!toggleCollapse()) return
+            break
+          default:
+            return
+        }
+        e.preventDefault()
+      }}
+      style={{ 'touch-action': 'none', ...props.style }}
+      onPointerDown={async e => {
+        // Only one pointer at a time, and only the primary button of a mouse.
+        if (active() || (e.pointerType === 'mouse' && e.button !== 0)) return
+        let totalOverflow = 0
+
+        const split = context.split()
+        if (!split || !descriptor) return
+        const handle = descriptor
+        const resize = startResize(split, handle)
+        if (!resize) return
         setActive(true)
 
-        const neighbors = context.dragHandleStart(resolveNode(handle))
-        if (!neighbors) return
-        await cursor(e, ({ delta }) => {
-          const overflow = context.dragHandle(
-            neighbors,
-            context.type === 'column' ? delta.x + totalOverflow.x : delta.y + totalOverflow.y,
-          )
-          if (overflow === NO_OVERFLOW) {
-            // reset overflow
-            totalOverflow = {
-              x: 0,
-              y: 0,
+        // Position of the handle according to the pointer, after quantizing and snapping.
+        const origin = split.getHandlePosition(handle)
+        const sign = context.isReversed() ? -1 : 1
+        let position = origin
+
+        const { cancelled } = await cursor(
+          e,
+          ({ total }) => {
+            const next = snap(
+              split,
+              handle,
+              origin - sign * (context.type === 'column' ? total.x : total.y),
+            )
+            const delta = next - position
+            position = next
+
+            const overflow = resize.move(delta + totalOverflow)
+            if (overflow === NO_OVERFLOW) {
+              // reset overflow
+              totalOverflow = 0
+            } else {
+              totalOverflow += delta
             }
-          } else {
-            totalOverflow.x += context.type === 'column' ? delta.x : overflow
-            totalOverflow.y += context.type !== 'column' ? delta.y : overflow
-          }
-        })
+          },
+          { cursor: context.type === 'column' ? 'col-resize' : 'row-resize' },
+        )
 
-        context.dragHandleEnd()
+        // Cancelled drags, f.ex. by Escape, roll back to the sizes from before the drag.
+        if (cancelled) resize.cancel()
+        else resize.end(totalOverflow !== 0)
         setActive(false)
+        setSnapped(false)
       }}
     />
   ) as unknown as Nested<Element>
-  handleSet.add(resolveNode(handle))
+  descriptor = paneMap.get(resolveNode(handle))!
   return handle as unknown as Element
 }
 
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Grid                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+/** Size of a column or row of a Split.Grid, optionally constrained by a `min` and `max`. */
+export type GridTrack = Exclude<SizeValue, 'auto'> | Exclude<SizeProps, AutoProps>
+type GridTrackProps = FractionProps | LengthProps
+
+/** Sizing of the columns or rows of a Split.Grid. */
+type GridAxis = {
+  template: () => string
+  getPixels: () => number[]
+  getLimits: (index: number) => PaneLimits
+  /**
+   * Moves the handle after the track at the given index by `deltaPx`, relative to the given pixel-sizes.
+   * Returns the part of the delta that could not be applied because of the limits of the tracks.
+   */
+  resize: (index: number, deltaPx: number, origin: number[]) => number
+}
+
+type GridContext = {
+  columns: GridAxis
+  rows: GridAxis
+  /** Whether the columns are laid out right-to-left, inverting the horizontal movement of the handles. */
+  isRightToLeft: () => boolean
+}
+
+const gridContext = createContext<GridContext>()
+function useGrid() {
+  return useContext(gridContext)
+}
+
+/**
+ * Tracks the sizes of the columns or rows of a Split.Grid in their declared unit.
+ * Handles are placed in tracks of `handleSize` between each pair of tracks.
+ */
+function createGridAxis(
+  tracks: () => GridTrackProps[],
+  containerSize: () => number,
+  handleSize: () => PixelValue,
+  element: () => Element | undefined,
+): GridAxis {
+  /** Sizes of the tracks in their declared unit, reset whenever the tracks change. */
+  const [values, setValues] = createSignal<number[]>([])
+  createRenderEffect(on(tracks, tracks => setValues(tracks.map(track => parseFloat(track.size)))))
+
+  const getPixelsPerUnit = (track: LengthProps) =>
+    getLengthUnitPixels(getUnit(track.size) as Exclude<SizeUnit, 'fr'>, containerSize(), element())
+
+  const getTotalFractions = (values: number[]) =>
+    tracks().reduce((total, track, index) => {
+      return isFractionProps(track) ? total + values[index]! : total
+    }, 0)
+
+  /** Space left for the fraction-tracks, given the pixel-sizes of the non-fraction tracks. */
+  const getFractionSpace = (pixels: number[]) =>
+    tracks().reduce(
+      (total, track, index) => (isFractionProps(track) ? total : total - pixels[index]!),
+      containerSize() - (tracks().length - 1) * parseFloat(handleSize()),
+    )
+
+  const getPixels = () => {
+    // Unmeasured grids (f.ex. on the server) have no sizes in px.
+    if (!containerSize()) return tracks().map(() => 0)
+    const sizes = values()
+    const pixels = tracks().map((track, index) => {
+      return isFractionProps(track) ? 0 : sizes[index]! * getPixelsPerUnit(track)
+    })
+    const pixelsPerFraction = resolvePixelsPerFraction(
+      getFractionSpace(pixels),
+      getTotalFractions(sizes),
+    )
+    return tracks().map((track, index) =>
+      isFractionProps(track) ? sizes[index]! * pixelsPerFraction : pixels[index]!,
+    )
+  }
+
+  /**
+   * Converts pixel-sizes back to the declared units, resolving the fractions together.
+   * Without space left for them the fractions keep their values, the other tracks are still written.
+   */
+  const setPixels = (pixels: number[]) => {
+    if (!containerSize()) return
+    const current = values()
+    const indices = tracks().flatMap((track, index) => (isFractionProps(track) ? [index] : []))
+    const fractions = toFractions(
+      indices.map(index => pixels[index]!),
+      indices.map(index => current[index]!),
+      getFractionSpace(pixels),
+    )
+    setValues(
+      tracks().map((track, index) =>
+        isFractionProps(track)
+          ? fractions[indices.indexOf(index)]!
+          : pixels[index]! / getPixelsPerUnit(track),
+      ),
+    )
+  }
+
+  const getLimits = (index: number): PaneLimits => {
+    const track = tracks()[index]
+    const min = track?.min ? toPixels(track.min, containerSize(), element()) : 0
+    const max = track?.max ? toPixels(track.max, containerSize(), element()) : Infinity
+    // Like CSS, a `max` below the `min` is ignored.
+    return { min, max: Math.max(min, max) }
+  }
+
+  return {
+    template: () =>
+      tracks()
+        .map((track, index) => {
+          const value = values()[index] ?? parseFloat(track.size)
+          return getTrackTemplate(track, `${value}${getUnit(track.size)}`)
+        })
+        .join(` ${handleSize()} `),
+    getPixels,
+    getLimits,
+    resize(index, deltaPx, origin) {
+      if (index + 1 >= tracks().length) return deltaPx
+      const delta = clampBoundary(
+        origin[index]!,
+        origin[index + 1]!,
+        getLimits(index),
+        getLimits(index + 1),
+        deltaPx,
+      )
+      const pixels = [...origin]
+      pixels[index] = origin[index]! + delta
+      pixels[index + 1] = origin[index + 1]! - delta
+      setPixels(pixels)
+      return deltaPx - delta
+    },
+  }
+}
+
+type GridProps = Omit<ComponentProps<'span'>, 'style'> &
+  OptionalSizeProps & {
+    /** Sizes of the columns. */
+    columns: GridTrack[]
+    /** Sizes of the rows. */
+    rows: GridTrack[]
+    /** Size of the tracks between the columns and rows the handles are placed in. Defaults to 10px */
+    handleSize?: PixelValue
+    style?: JSX.CSSProperties
+    onResize?: (size: DOMRect, element: HTMLSpanElement) => void
+  }
+
+/**
+ * A two-dimensional Split: a resizable grid of columns and rows.
+ *
+ * Between each pair of columns and each pair of rows the grid reserves a track of `handleSize`.
+ * `Split.Grid.Pane` places content in a cell, `Split.Grid.Handle` resizes the columns (when given a `column`),
+ * the rows (when given a `row`) or both at once (when given both, f.ex. at the intersection of two handles).
+ * Tracks take the same units and limits as the panes of a Split.
+ *
+ * @param props - The props for the Grid component.
+ * @param props.columns - Sizes of the columns, f.ex. `['200px', '1fr']` or `[{ size: '1fr', min: '100px' }, '1fr']`.
+ * @param props.rows - Sizes of the rows.
+ * @param [props.handleSize='10px'] - Size of the tracks between the columns and rows.
+ * @returns The Grid component.
+ *
+ * @example
+ * <Split.Grid columns={['200px', '1fr']} rows={['1fr', '1fr']} style={{ height: '100vh' }}>
+ *   <Split.Grid.Pane column={0} row={0} rowSpan={2}>Sidebar</Split.Grid.Pane>
+ *   <Split.Grid.Pane column={1} row={0}>Top</Split.Grid.Pane>
+ *   <Split.Grid.Pane column={1} row={1}>Bottom</Split.Grid.Pane>
+ *   <Split.Grid.Handle column={0} />
+ *   <Split.Grid.Handle row={0} />
+ *   <Split.Grid.Handle column={0} row={0} />
+ * </Split.Grid>
+ *
+ * @warning Sizes of the tracks are reset when `columns` or `rows` change.
+ */
+function Grid(props: GridProps) {
+  const config = mergeProps({ handleSize: '10px' as const }, props)
+  const [, rest] = splitProps(props, ['columns', 'rows', 'handleSize', 'style', 'ref', 'onResize'])
+  const [domRect, setDomRect] = createSignal<DOMRect>()
+  const [gridRef, setGridRef] = createSignal<HTMLSpanElement>()
+
+  const toSizeProps = (track: GridTrack) =>
+    resolveSizeProps(
+      typeof track === 'string' ? ({ size: track } as SizeProps) : track,
+    ) as GridTrackProps
+  const columnTracks = createMemo(() => props.columns.map(toSizeProps))
+  const rowTracks = createMemo(() => props.rows.map(toSizeProps))
+
+  const context: GridContext = {
+    columns: createGridAxis(
+      columnTracks,
+      () => domRect()?.width || 0,
+      () => config.handleSize,
+      gridRef,
+    ),
+    rows: createGridAxis(
+      rowTracks,
+      () => domRect()?.height || 0,
+      () => config.handleSize,
+      gridRef,
+    ),
+    isRightToLeft: () => isRightToLeft(gridRef()),
+  }
+
+  createEffect(() => {
+    const ref = gridRef()
+    if (!ref) return
+    const observer = new ResizeObserver(entries => {
+      for (const entry of entries) {
+        setDomRect(entry.contentRect)
+        props.onResize?.(entry.contentRect, ref)
+      }
+    })
+    observer.observe(ref)
+    onCleanup(() => observer.disconnect())
+  })
+
+  // Splits within the grid are not panes of a surrounding Split.
+  const offspring = withContext(
+    () => withContext(() => props.children, splitContext, undefined)(),
+    gridContext,
+    context,
+  )
+
+  return (
+    <Base
+      ref={mergeRefs(setGridRef, props)}
+      style={{
+        display: 'grid',
+        ...props.style,
+        'grid-template-columns': context.columns.template(),
+        'grid-template-rows': context.rows.template(),
+      }}
+      {...rest}
+    >
+      {offspring()}
+    </Base>
+  )
+}
+
+type GridPaneProps = Omit<ComponentProps<'span'>, 'style'> & {
+  /** Index of the column of the pane. */
+  column: number
+  /** Index of the row of the pane. */
+  row: number
+  /** Amount of columns the pane spans. Defaults to 1 */
+  columnSpan?: number
+  /** Amount of rows the pane spans. Defaults to 1 */
+  rowSpan?: number
+  style?: JSX.CSSProperties
+}
+
+/** Grid-lines of a range of tracks, skipping the tracks of the handles. */
+const getTrackLines = (index: number, span = 1) => `${index * 2 + 1} / span ${span * 2 - 1}`
+
+/**
+ * A Pane component that places content in a cell of a Split.Grid.
+ *
+ * @param props - The props for the Grid.Pane component.
+ * @param props.column - Index of the column of the pane.
+ * @param props.row - Index of the row of the pane.
+ * @param [props.columnSpan=1] - Amount of columns the pane spans, handles in between included.
+ * @param [props.rowSpan=1] - Amount of rows the pane spans, handles in between included.
+ * @returns The Grid.Pane component.
+ */
+function GridPane(props: GridPaneProps) {
+  if (!useGrid()) throw `Split.Grid.Pane should be used within a Split.Grid-component`
+  const [, rest] = splitProps(props, ['column', 'row', 'columnSpan', 'rowSpan', 'style'])
+  return (
+    <span
+      style={{
+        overflow: 'hidden',
+        'grid-column': getTrackLines(props.column, props.columnSpan),
+        'grid-row': getTrackLines(props.row, props.rowSpan),
+        ...props.style,
+      }}
+      {...rest}
+    />
+  )
+}
+
+type GridHandleProps = Omit<ComponentProps<'span'>, 'style'> & {
+  /** Index of the column after which the handle is placed. Resizes the columns. */
+  column?: number
+  /** Index of the row after which the handle is placed. Resizes the rows. */
+  row?: number
+  /** Amount of px the handle moves with the arrow-keys. Defaults to 10. */
+  step?: number
+  /** Amount of px the handle moves with the arrow-keys while holding shift. Defaults to 100. */
+  largeStep?: number
+  style?: JSX.CSSProperties
+}
+
+/**
+ * A Handle component that resizes the columns and/or rows of a Split.Grid.
+ *
+ * A handle with a `column` spans all rows and resizes the column before and after it, a handle with a `row`
+ * spans all columns and resizes the row before and after it. A handle with both is placed at their intersection
+ * and resizes the columns and rows in a single drag. Like `Split.Handle` it is focusable: the arrow-keys
+ * move it by `step` (or `largeStep` while holding shift).
+ *
+ * @param props - The props for the Grid.Handle component.
+ * @param [props.column] - Index of the column after which the handle is placed.
+ * @param [props.row] - Index of the row after which the handle is placed.
+ * @param [props.step=10] - Amount of px the handle moves with the arrow-keys.
+ * @param [props.largeStep=100] - Amount of px the handle moves with the arrow-keys while holding shift.
+ * @returns The Grid.Handle component.
+ *
+ * @example
+ * <Split.Grid.Handle column={0} row={0} />
+ */
+function GridHandle(props: GridHandleProps) {
+  const context = useGrid()
+  if (!context) throw `Split.Grid.Handle should be used within a Split.Grid-component`
+  const config = mergeProps({ step: 10, largeStep: 100 }, props)
+  const [, rest] = splitProps(props, ['column', 'row', 'step', 'largeStep', 'style'])
+  const [active, setActive] = createSignal(false)
+
+  /** Resizable axes of the handle, with the index of the track before the handle. */
+  const getAxes = () => {
+    const axes: Array<[axis: GridAxis, index: number, direction: 'x' | 'y']> = []
+    if (props.column !== undefined) axes.push([context.columns, props.column, 'x'])
+    if (props.row !== undefined) axes.push([context.rows, props.row, 'y'])
+    return axes
+  }
+
+  /** Position of a single-axis handle, as exposed to ARIA. */
+  const range = createMemo(() => {
+    const axes = getAxes()
+    if (axes.length !== 1) return
+    const [axis, index] = axes[0]!
+    const pixels = axis.getPixels()
+    if (index + 1 >= pixels.length) return
+    return getSeparatorRange(
+      pixels[index]!,
+      pixels[index + 1]!,
+      axis.getLimits(index),
+      axis.getLimits(index + 1),
+    )
+  })
+
+  const moveBy = (delta: { x: number; y: number }) => {
+    for (const [axis, index, direction] of getAxes()) {
+      if (delta[direction]) axis.resize(index, delta[direction], axis.getPixels())
+    }
+  }
+
+  return (
+    <span
+      role="separator"
+      tabIndex={0}
+      {...rest}
+      aria-orientation={
+        props.row === undefined ? 'vertical' : props.column === undefined ? 'horizontal' : undefined
+      }
+      aria-valuenow={range()?.now}
+      aria-valuemin={range()?.min}
+      aria-valuemax={range()?.max}
+      data-active-handle={active() || undefined}
+      style={{
+        'touch-action': 'none',
+        'grid-column': props.column === undefined ? '1 / -1' : `${props.column * 2 + 2}`,
+        'grid-row': props.row === undefined ? '1 / -1' : `${props.row * 2 + 2}`,
+        // Intersections are placed above the handles they cross.
+        'z-index': props.column !== undefined && props.row !== undefined ? 1 : undefined,
+        ...props.style,
+      }}
+      onKeyDown={e => {
+        const step = e.shiftKey ? config.largeStep : config.step
+        const horizontal = context.isRightToLeft() ? -step : step
+        switch (e.key) {
+          case 'ArrowLeft':
+            moveBy({ x: -horizontal, y: 0 })
+            break
+          case 'ArrowRight':
+            moveBy({ x: horizontal, y: 0 })
+            break
+          case 'ArrowUp':
+            moveBy({ x: 0, y: -step })
+            break
+          case 'ArrowDown':
+            moveBy({ x: 0, y: step })
+            break
+          default:
+            return
+        }
+        e.preventDefault()
+      }}
+      onPointerDown={async e => {
+        // Only one pointer at a time, and only the primary button of a mouse.
+        if (active() || (e.pointerType === 'mouse' && e.button !== 0)) return
+        const rightToLeft = context.isRightToLeft()
+        const axes = getAxes().map(([axis, index, direction]) => {
+          const sign = direction === 'x' && rightToLeft ? -1 : 1
+          return [axis, index, direction, sign, axis.getPixels()] as const
+        })
+        if (!axes.length) return
+        setActive(true)
+
+        // Tracks are resized relative to their size at the start of the drag, so the handle stays under the pointer.
+        const { cancelled } = await cursor(
+          e,
+          ({ total }) => {
+            batch(() => {
+              for (const [axis, index, direction, sign, origin] of axes) {
+                axis.resize(index, -sign * total[direction], origin)
+              }
+            })
+          },
+          { cursor: axes.length > 1 ? 'move' : axes[0]![2] === 'x' ? 'col-resize' : 'row-resize' },
+        )
+
+        // Cancelled drags, f.ex. by Escape, roll back to the sizes from before the drag.
+        if (cancelled) {
+          batch(() => {
+            for (const [axis, index, , , origin] of axes) axis.resize(index, 0, origin)
+          })
+        }
+        setActive(false)
+      }}
+    />
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Layout                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+const getLayoutSizeProps = (node: Accessor<LayoutNode | undefined>) =>
+  ({
+    get size() {
+      return node()?.size ?? '1fr'
+    },
+  }) as OptionalSizeProps
+
+/**
+ * Key of a node among its siblings: panes are keyed by id, splits by their id or else by their position.
+ * Splits are not keyed by their panes: moving a pane would remount the whole split.
+ */
+const getLayoutKey = (node: LayoutNode, index: number) =>
+  isLayoutSplit(node) ? (node.id === undefined ? `split@${index}` : `split:${node.id}`) : node.id
+
+type LayoutProps = Omit<ComponentProps<'span'>, 'style' | 'children' | 'onTransitionEnd'> & {
+  /** Layout-tree of the panes. */
+  layout: LayoutNode
+  /** Called with the new layout-tree after a handle is moved. */
+  onLayoutChange?: (layout: LayoutNode) => void
+  /** Renders the content of the pane with the given id. */
+  children: (id: string) => JSX.Element
+  /** Size of the handles between the panes. Defaults to 10px */
+  handleSize?: PixelValue
+  style?: JSX.CSSProperties
+}
+
+/**
+ * Renders a layout-tree into nested Splits.
+ *
+ * The tree is a serializable description of the layout: splits of `{ type, size, children }` and panes of
+ * `{ id, size }`. Each time a handle is moved the new sizes of the panes of its Split are written back into the
+ * tree, as an immutable update that is passed to `onLayoutChange`.
+ *
+ * @param props - The props for the Layout component.
+ * @param props.layout - Layout-tree of the panes, f.ex. `{ type: 'column', children: [{ id: 'files', size: '200px' }, { id: 'editor' }] }`.
+ * @param [props.onLayoutChange] - Called with the new layout-tree after each move of a handle.
+ * @param props.children - Renders the content of a pane by its id. Contents are rendered once per id,
+ * so they keep their state when the tree changes.
+ * @param [props.handleSize='10px'] - Size of the handles between the panes.
+ * @returns The Layout component.
+ *
+ * @example
+ * <Split.Layout layout={layout()} onLayoutChange={setLayout} style={{ height: '100vh' }}>
+ *   {id => <Panel id={id} />}
+ * </Split.Layout>
+ */
+function Layout(
+  props: LayoutProps & {
+    /** Props of the element of the pane with the given id. */
+    pane?: (id: string) => Omit<ComponentProps<'span'>, 'style'> & { style?: JSX.CSSProperties }
+  },
+) {
+  const config = mergeProps({ handleSize: '10px' as const }, props)
+  const [, rest] = splitProps(props, ['layout', 'onLayoutChange', 'children', 'handleSize', 'pane'])
+  const [layout, setLayout] = createSignal(props.layout)
+  createRenderEffect(on(() => props.layout, setLayout, { defer: true }))
+  // Contents are rendered once per id, so they survive being moved to another Split.
+  const contents = createMemo(
+    mapArray(
+      () => getPaneIds(layout()),
+      id => [id, props.children(id)] as const,
+    ),
+  )
+  const getContent = (id: string) => contents().find(([key]) => key === id)?.[1]
+
+  /**
+   * Writes the sizes of all children of the split back into the tree after a move of a handle:
+   * the fractions of panes beyond the neighbors of the handle can change as well.
+   */
+  const writeSizes = (split: LayoutSplit | undefined, event: ResizeEvent) => {
+    if (!split) return
+    const sizes = new Map<LayoutNode, string>()
+    split.children.forEach((node, index) => {
+      const size = event.sizes[index]
+      if (!size) return
+      const value = `${Number(size.value.toFixed(4))}${size.unit}`
+      if (value !== (node.size ?? '1fr')) sizes.set(node, value)
+    })
+    if (!sizes.size) return
+    const next = resizeNodes(layout(), sizes)
+    setLayout(next)
+    props.onLayoutChange?.(next)
+  }
+
+  const renderPane = (id: string, node: Accessor<LayoutNode | undefined>) => {
+    const paneProps = props.pane?.(id) ?? {}
+    return (
+      <Pane {...paneProps} {...getLayoutSizeProps(node)} data-pane-id={id}>
+        {getContent(id)}
+      </Pane>
+    )
+  }
+
+  const renderChildren = (split: Accessor<LayoutSplit | undefined>) => (
+    <For each={split()?.children.map(getLayoutKey)}>
+      {(key, index) => {
+        const node = createMemo(
+          () =>
+            split()?.children.find((child, childIndex) => getLayoutKey(child, childIndex) === key),
+        )
+        const initial = node()
+        return (
+          <>
+            <Show when={index()}>
+              <Handle size={config.handleSize} />
+            </Show>
+            {initial && isLayoutSplit(initial) ? (
+              <Split
+                // Splits without an id are kept by their position: their direction can change.
+                type={(node() as LayoutSplit | undefined)?.type ?? initial.type}
+                {...getLayoutSizeProps(node)}
+                onResizeEnd={event => writeSizes(node() as LayoutSplit | undefined, event)}
+                preserveSizes={false}
+              >
+                {renderChildren(node as Accessor<LayoutSplit | undefined>)}
+              </Split>
+            ) : (
+              renderPane(key, node)
+            )}
+          </>
+        )
+      }}
+    </For>
+  )
+
+  // A single pane is rendered within a Split of its own.
+  const root = createMemo((): LayoutSplit => {
+    const node = layout()
+    return isLayoutSplit(node) ? node : { type: 'column', children: [node] }
+  })
+
+  return (
+    // The sizes of the tree are the source of truth when panes are inserted or removed.
+    <Split
+      {...rest}
+      type={root().type}
+      onResizeEnd={event => writeSizes(root(), event)}
+      preserveSizes={false}
+    >
+      {renderChildren(root)}
+    </Split>
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Dock                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+type DockPaneContext = {
+  /** Starts dragging the pane to a drop zone of another pane. */
+  drag: (event: PointerEvent) => void
+}
+
+const dockPaneContext = createContext<DockPaneContext>()
+
+/** Zone of the pane at the given position: the closest edge within the outer quarter of the pane, else its center. */
+function getDropZone(rect: DOMRect, x: number, y: number): DropZone {
+  const distances = [
+    ['left', (x - rect.left) / rect.width],
+    ['right', (rect.right - x) / rect.width],
+    ['top', (y - rect.top) / rect.height],
+    ['bottom', (rect.bottom - y) / rect.height],
+  ] as const
+  const [zone, distance] = distances.reduce((closest, entry) =>
+    entry[1] < closest[1] ? entry : closest,
+  )
+  return distance < 0.25 ? zone : 'center'
+}
+
+/** Area of the target pane covered by the indicator of a drop zone. */
+const DROP_ZONE_STYLES: Record<DropZone, JSX.CSSProperties> = {
+  left: { top: '0', bottom: '0', left: '0', width: '50%' },
+  right: { top: '0', bottom: '0', right: '0', width: '50%' },
+  top: { left: '0', right: '0', top: '0', height: '50%' },
+  bottom: { left: '0', right: '0', bottom: '0', height: '50%' },
+  center: { top: '0', right: '0', bottom: '0', left: '0' },
+}
+
+/**
+ * A docking layout: a Split.Layout that lets the user rearrange its panes.
+ *
+ * Dragging the `Split.Dock.Header` of a pane shows the drop zones of the pane under the pointer:
+ * dropping on an edge places the pane next to it, within the same Split or within a new nested Split in the
+ * other direction, dropping on the center swaps both panes. The space of the moved pane goes to its sibling,
+ * the target pane shares its space with the moved pane.
+ *
+ * While dragging, the dragged pane gets a `data-dragging` attribute and the target pane a `data-drop-target`
+ * attribute with the zone, together with an indicator (with a `data-drop-zone` attribute) covering the zone.
+ *
+ * @param props - The props for the Dock component, the same as those of Split.Layout.
+ * @param props.layout - Layout-tree of the panes.
+ * @param [props.onLayoutChange] - Called with the new layout-tree after each drop and each move of a handle.
+ * @param props.children - Renders the content of a pane by its id. Contents are rendered once per id,
+ * so they keep their state while they are moved.
+ * @param [props.handleSize='10px'] - Size of the handles between the panes.
+ * @returns The Dock component.
+ *
+ * @example
+ * <Split.Dock layout={layout()} onLayoutChange={setLayout} style={{ height: '100vh' }}>
+ *   {id => (
+ *     <>
+ *       <Split.Dock.Header>{id}</Split.Dock.Header>
+ *       <Panel id={id} />
+ *     </>
+ *   )}
+ * </Split.Dock>
+ */
+function Dock(props: LayoutProps) {
+  const [, rest] = splitProps(props, ['layout', 'onLayoutChange', 'children'])
+  const [layout, setLayout] = createSignal(props.layout)
+  createRenderEffect(on(() => props.layout, setLayout, { defer: true }))
+  /** Pane that is dragged, together with the pane and zone it would be dropped on. */
+  const [drop, setDrop] = createSignal<{ id: string; target?: string; zone?: DropZone }>()
+  const elements = new Map<string, Element>()
+
+  const update = (next: LayoutNode) => {
+    setLayout(next)
+    props.onLayoutChange?.(next)
+  }
+
+  async function drag(event: PointerEvent, id: string) {
+    // Only one pointer at a time, and only the primary button of a mouse.
+    if (drop() || (event.pointerType === 'mouse' && event.button !== 0)) return
+    setDrop({ id })
+
+    const { cancelled } = await cursor(
+      event,
+      ({ event }) => {
+        for (const target of getPaneIds(layout())) {
+          const rect = elements.get(target)?.getBoundingClientRect()
+          if (
+            target === id ||
+            !rect ||
+            event.clientX < rect.left ||
+            event.clientX > rect.right ||
+            event.clientY < rect.top ||
+            event.clientY > rect.bottom
+          ) {
+            continue
+          }
+          return setDrop({ id, target, zone: getDropZone(rect, event.clientX, event.clientY) })
+        }
+        setDrop({ id })
+      },
+      { cursor: 'grabbing' },
+    )
+
+    const { target, zone } = drop()!
+    setDrop(undefined)
+    // Cancelled drags are not dropped.
+    if (cancelled || !target || !zone) return
+    const next = movePane(layout(), id, target, zone)
+    if (next !== layout()) update(next)
+  }
+
+  return (
+    <Layout
+      {...rest}
+      layout={layout()}
+      onLayoutChange={update}
+      pane={id => {
+        let element: Element | undefined
+        // Removed panes are forgotten, unless their id is rendered anew in the meantime.
+        onCleanup(() => elements.get(id) === element && elements.delete(id))
+        return {
+          ref: ref => elements.set(id, (element = ref)),
+          style: { position: 'relative' },
+          get 'data-dragging'() {
+            return drop()?.id === id || undefined
+          },
+          get 'data-drop-target'() {
+            return (drop()?.target === id && drop()?.zone) || undefined
+          },
+        }
+      }}
+    >
+      {id => (
+        <>
+          {withContext(() => props.children(id), dockPaneContext, {
+            drag: event => drag(event, id),
+          })}
+          <Show when={drop()?.target === id && drop()?.zone}>
+            {zone => (
+              <span
+                data-drop-zone={zone()}
+                style={{
+                  position: 'absolute',
+                  'pointer-events': 'none',
+                  background: 'rgba(0, 0, 0, 0.15)',
+                  ...DROP_ZONE_STYLES[zone()],
+                }}
+              />
+            )}
+          </Show>
+        </>
+      )}
+    </Layout>
+  )
+}
+
+/**
+ * Header of a pane of a Split.Dock: dragging it moves the pane to a drop zone of another pane.
+ *
+ * @example
+ * <Split.Dock.Header>Explorer</Split.Dock.Header>
+ */
+function DockHeader(props: Omit<ComponentProps<'span'>, 'style'> & { style?: JSX.CSSProperties }) {
+  const context = useContext(dockPaneContext)
+  if (!context) throw `Split.Dock.Header should be used within the panes of a Split.Dock-component`
+  const [, rest] = splitProps(props, ['style'])
+  return (
+    <span
+      {...rest}
+      style={{ 'touch-action': 'none', cursor: 'grab', ...props.style }}
+      onPointerDown={e => context.drag(e)}
+    />
+  )
+}
+
+Grid.Pane = GridPane
+Grid.Handle = GridHandle
+
+Dock.Header = DockHeader
+
 Split.Handle = Handle
 Split.Pane = Pane
+Split.Grid = Grid
+Split.Layout = Layout
+Split.Dock = Dock
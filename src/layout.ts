@@ -0,0 +1,169 @@
+/** Pane of a layout-tree, rendered by its id. */
+export interface LayoutPane {
+  id: string
+  /** Size of the pane, in any unit a `Split.Pane` accepts. Defaults to `1fr`. */
+  size?: string
+}
+
+/** Split of a layout-tree: `column` places its children side by side, `row` stacks them. */
+export interface LayoutSplit {
+  type: 'column' | 'row'
+  /** Stable identity of the split: keeps it mounted while the tree changes around it. */
+  id?: string
+  /** Size of the split within its parent split, in any unit a `Split.Pane` accepts. Defaults to `1fr`. */
+  size?: string
+  children: LayoutNode[]
+}
+
+export type LayoutNode = LayoutPane | LayoutSplit
+
+/** Area of a pane a dragged pane is dropped on: `center` swaps both panes. */
+export type DropZone = 'left' | 'right' | 'top' | 'bottom' | 'center'
+
+export const isLayoutSplit = (node: LayoutNode): node is LayoutSplit => 'children' in node
+
+/** Ids of the panes of the tree, in order of appearance. */
+export function getPaneIds(node: LayoutNode): string[] {
+  return isLayoutSplit(node) ? node.children.flatMap(getPaneIds) : [node.id]
+}
+
+/** Id for a new split, unique among the splits of the tree. */
+function createSplitId(tree: LayoutNode) {
+  const ids = new Set<string>()
+  const collect = (node: LayoutNode) => {
+    if (!isLayoutSplit(node)) return
+    if (node.id !== undefined) ids.add(node.id)
+    node.children.forEach(collect)
+  }
+  collect(tree)
+  let index = 0
+  while (ids.has(`split-${index}`)) index++
+  return `split-${index}`
+}
+
+/** Splits a size into two equal halves, when it has a unit to divide. */
+function halve(size = '1fr'): [string, string] {
+  const match = size.match(/^(-?[\d.]+)([a-z%]+)$/)
+  if (!match) return [size, '1fr']
+  const half = `${parseFloat(match[1]!) / 2}${match[2]}`
+  return [half, half]
+}
+
+/** Adds the size of a removed node to a node of the same unit. */
+function grow(node: LayoutNode, size = '1fr'): LayoutNode {
+  const current = node.size ?? '1fr'
+  const unit = current.match(/^-?[\d.]+([a-z%]+)$/)?.[1]
+  if (!unit || !size.endsWith(unit) || !/^-?[\d.]+[a-z%]+$/.test(size)) return node
+  return { ...node, size: `${parseFloat(current) + parseFloat(size)}${unit}` }
+}
+
+/**
+ * Removes the pane from the tree. Its space goes to its next sibling, or else its previous sibling,
+ * when they share a unit. Splits that are left with a single child are replaced by that child.
+ *
+ * @returns The new tree, or `undefined` when the tree consisted of the pane only.
+ */
+export function removePane(node: LayoutNode, id: string): LayoutNode | undefined {
+  if (!isLayoutSplit(node)) return node.id === id ? undefined : node
+
+  const index = node.children.findIndex(child => !isLayoutSplit(child) && child.id === id)
+  let children: LayoutNode[]
+  if (index !== -1) {
+    children = node.children.filter((child, childIndex) => childIndex !== index)
+    const siblingIndex = index < children.length ? index : index - 1
+    const sibling = children[siblingIndex]
+    if (sibling) children[siblingIndex] = grow(sibling, node.children[index]!.size)
+  } else {
+    children = node.children.flatMap(child => removePane(child, id) ?? [])
+    if (children.every((child, childIndex) => child === node.children[childIndex])) return node
+  }
+
+  if (children.length === 0) return undefined
+  if (children.length === 1) return { ...children[0]!, size: node.size }
+  return { ...node, children }
+}
+
+/**
+ * Inserts the pane next to the target pane, splitting the space of the target between them.
+ * A split created to hold both takes the given id.
+ */
+function insertPane(
+  node: LayoutNode,
+  pane: LayoutPane,
+  targetId: string,
+  zone: Exclude<DropZone, 'center'>,
+  splitId: string,
+): LayoutNode {
+  const type = zone === 'left' || zone === 'right' ? 'column' : 'row'
+  const before = zone === 'left' || zone === 'top'
+
+  if (!isLayoutSplit(node)) {
+    if (node.id !== targetId) return node
+    // Wrap the target in a new split in the direction of the zone.
+    const target = { ...node, size: '1fr' }
+    const inserted = { ...pane, size: '1fr' }
+    return {
+      type,
+      id: splitId,
+      size: node.size,
+      children: before ? [inserted, target] : [target, inserted],
+    }
+  }
+
+  const index = node.children.findIndex(child => !isLayoutSplit(child) && child.id === targetId)
+  if (index !== -1 && node.type === type) {
+    const target = node.children[index]!
+    const [targetSize, paneSize] = halve(target.size)
+    const children = [...node.children]
+    children.splice(index, 1, { ...target, size: targetSize })
+    children.splice(before ? index : index + 1, 0, { ...pane, size: paneSize })
+    return { ...node, children }
+  }
+
+  const children = node.children.map(child => insertPane(child, pane, targetId, zone, splitId))
+  if (children.every((child, childIndex) => child === node.children[childIndex])) return node
+  return { ...node, children }
+}
+
+/** Swaps the ids of two panes, leaving their sizes in place. */
+function swapPanes(node: LayoutNode, id: string, targetId: string): LayoutNode {
+  if (isLayoutSplit(node)) {
+    return { ...node, children: node.children.map(child => swapPanes(child, id, targetId)) }
+  }
+  if (node.id === id) return { ...node, id: targetId }
+  if (node.id === targetId) return { ...node, id }
+  return node
+}
+
+/**
+ * Moves a pane to a zone of another pane, as an immutable update of the tree.
+ *
+ * Dropping on an edge places the pane next to the target: within the split of the target when it has the same
+ * direction, or else within a new split that takes the place of the target. Dropping on the center swaps the panes.
+ * New splits get an `id`, so they keep their identity when the tree changes afterwards.
+ *
+ * @returns The new tree, or the same tree when the pane or the target does not exist.
+ */
+export function movePane(
+  tree: LayoutNode,
+  id: string,
+  targetId: string,
+  zone: DropZone,
+): LayoutNode {
+  const ids = getPaneIds(tree)
+  if (id === targetId || !ids.includes(id) || !ids.includes(targetId)) return tree
+  if (zone === 'center') return swapPanes(tree, id, targetId)
+  const remaining = removePane(tree, id)
+  if (!remaining) return tree
+  return insertPane(remaining, { id }, targetId, zone, createSplitId(remaining))
+}
+
+/** Sets the sizes of the given nodes, compared by identity, as an immutable update of the tree. */
+export function resizeNodes(node: LayoutNode, sizes: Map<LayoutNode, string>): LayoutNode {
+  const size = sizes.get(node)
+  const resized = size === undefined ? node : { ...node, size }
+  if (!isLayoutSplit(resized)) return resized
+  const children = resized.children.map(child => resizeNodes(child, sizes))
+  if (children.every((child, index) => child === resized.children[index])) return resized
+  return { ...resized, children }
+}
@@ -0,0 +1,50 @@
+/** Range in px a track can be resized within. */
+export type Limits = { min: number; max: number }
+
+/**
+ * Size in px of one fraction, given the space left for the fraction-tracks and the total of their fractions.
+ * Like CSS Grid, fractions that add up to less than 1 do not fill the space.
+ */
+export const resolvePixelsPerFraction = (space: number, fractions: number) =>
+  Math.max(space, 0) / Math.max(fractions, 1)
+
+/**
+ * Resolves how far the boundary between two tracks can move by `delta`: the most constrained track wins.
+ * The boundary never moves against `delta`, so tracks that exceed their limits (f.ex. after the container
+ * shrunk) can be moved back within them, but not further out.
+ *
+ * @returns The part of `delta` that can be applied.
+ */
+export function clampBoundary(
+  before: number,
+  after: number,
+  beforeLimits: Limits,
+  afterLimits: Limits,
+  delta: number,
+) {
+  if (delta > 0) {
+    return Math.max(Math.min(delta, beforeLimits.max - before, after - afterLimits.min), 0)
+  }
+  return Math.min(Math.max(delta, beforeLimits.min - before, after - afterLimits.max), 0)
+}
+
+/**
+ * Converts sizes in px of fraction-tracks into fractions that render at those sizes within the given space.
+ * Fractions that fill the space keep filling it with the same total, so that their values do not drift:
+ * sizes that do not add up to the space are scaled proportionally.
+ *
+ * @param pixels - Sizes in px of the fraction-tracks.
+ * @param fractions - Current fractions of the tracks.
+ * @param space - Space in px left for the fraction-tracks.
+ * @returns The fractions of the tracks. Without space to resolve against, the current fractions are kept.
+ */
+export function toFractions(pixels: number[], fractions: number[], space: number) {
+  const total = pixels.reduce((sum, size) => sum + size, 0)
+  const totalFractions = fractions.reduce((sum, fraction) => sum + fraction, 0)
+  if (space <= 0) return fractions
+  // Fractions that add up to less than 1 take their share of the space without filling it.
+  if (totalFractions < 1 && total <= space) return pixels.map(size => size / space)
+  if (total <= 0) return pixels.map(() => 0)
+  const scale = Math.max(totalFractions, 1) / total
+  return pixels.map(size => size * scale)
+}
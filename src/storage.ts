@@ -0,0 +1,71 @@
+/**
+ * Storage-adapter used to persist the layout of a Split.
+ *
+ * `localStorage` and `sessionStorage` can be passed as-is. `getItem` and `setItem` are allowed
+ * to be async, so any key-value store can be plugged in.
+ */
+export interface SplitStorage {
+  getItem: (key: string) => string | null | undefined | Promise<string | null | undefined>
+  setItem: (key: string, value: string) => void | Promise<void>
+}
+
+/**
+ * Returns `localStorage` when it is available, `undefined` on the server or when access is denied.
+ */
+export function getDefaultStorage(): SplitStorage | undefined {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined
+  } catch (_error) {
+    return undefined
+  }
+}
+
+type CookieStorageOptions = {
+  /**
+   * Cookie-string to read from. On the server this should be the `cookie`-header of the request.
+   * Defaults to `document.cookie`.
+   */
+  cookie?: string | (() => string | undefined)
+  /** Defaults to `/` */
+  path?: string
+  /** Lifetime of the cookie in seconds. Defaults to a year. */
+  maxAge?: number
+}
+
+/**
+ * Creates a storage-adapter that persists the layout in a cookie, so it can be read while rendering on the server.
+ *
+ * @example
+ * // on the server
+ * const storage = createCookieStorage({ cookie: request.headers.get('cookie') ?? '' })
+ * // on the client
+ * const storage = createCookieStorage()
+ */
+export function createCookieStorage(options: CookieStorageOptions = {}): SplitStorage {
+  const getCookie = () => {
+    const cookie = typeof options.cookie === 'function' ? options.cookie() : options.cookie
+    if (cookie !== undefined) return cookie
+    return typeof document !== 'undefined' ? document.cookie : ''
+  }
+  return {
+    getItem(key) {
+      for (const entry of getCookie().split(';')) {
+        const index = entry.indexOf('=')
+        if (index === -1) continue
+        if (decodeURIComponent(entry.slice(0, index).trim()) === key) {
+          return decodeURIComponent(entry.slice(index + 1).trim())
+        }
+      }
+      return null
+    },
+    setItem(key, value) {
+      if (typeof document === 'undefined') return
+      document.cookie = [
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+        `path=${options.path ?? '/'}`,
+        `max-age=${options.maxAge ?? 60 * 60 * 24 * 365}`,
+        'SameSite=Lax',
+      ].join('; ')
+    },
+  }
+}
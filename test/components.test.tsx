@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { Split, type GridTrack, type PaneApi } from '../src'
+import { drag, mount } from './setup'
+
+describe('Split.Pane', () => {
+  it('reflects its collapsed and maximized state', () => {
+    let api!: PaneApi
+    const container = mount(() => (
+      <Split>
+        <Split.Pane id="sidebar" size="200px" collapsible api={pane => (api = pane)} />
+        <Split.Handle size="10px" />
+        <Split.Pane id="editor" />
+      </Split>
+    ))
+    const sidebar = container.querySelector('#sidebar')!
+
+    api.collapse()
+    expect(api.isCollapsed()).toBe(true)
+    expect(sidebar.hasAttribute('data-collapsed')).toBe(true)
+    api.expand()
+    expect(sidebar.hasAttribute('data-collapsed')).toBe(false)
+
+    expect(api.isMaximized()).toBe(false)
+    api.maximize()
+    expect(api.isMaximized()).toBe(true)
+    expect(sidebar.hasAttribute('data-maximized')).toBe(true)
+    api.restore()
+    expect(api.isMaximized()).toBe(false)
+  })
+})
+
+describe('Split.Handle', () => {
+  it('is taken out of the tab-order while a pane is maximized', () => {
+    let api!: PaneApi
+    const container = mount(() => (
+      <Split>
+        <Split.Pane />
+        <Split.Handle size="10px" />
+        <Split type="row">
+          <Split.Pane api={pane => (api = pane)} />
+          <Split.Handle size="10px" />
+          <Split.Pane />
+        </Split>
+      </Split>
+    ))
+    const handles = [...container.querySelectorAll('[role="separator"]')]
+    expect(handles.map(handle => handle.getAttribute('tabindex'))).toEqual(['0', '0'])
+
+    api.maximize()
+    expect(handles.map(handle => handle.getAttribute('tabindex'))).toEqual(['-1', '-1'])
+    expect(handles.every(handle => handle.getAttribute('aria-hidden') === 'true')).toBe(true)
+
+    api.restore()
+    expect(handles.map(handle => handle.getAttribute('tabindex'))).toEqual(['0', '0'])
+    expect(handles.some(handle => handle.hasAttribute('aria-hidden'))).toBe(false)
+  })
+})
+
+describe('Split.Grid', () => {
+  function mountGrid(
+    columns: GridTrack[],
+    rows: GridTrack[] = ['1fr', '1fr'],
+    options: { direction?: 'rtl' } = {},
+  ) {
+    const container = mount(() => (
+      <Split.Grid columns={columns} rows={rows} style={{ direction: options.direction }}>
+        <Split.Grid.Handle column={0} />
+        <Split.Grid.Handle row={0} />
+        <Split.Grid.Handle column={0} row={0} />
+      </Split.Grid>
+    ))
+    const grid = container.firstElementChild as HTMLElement
+    const [column, row, intersection] = container.querySelectorAll('[role="separator"]')
+    return {
+      column: column!,
+      row: row!,
+      intersection: intersection!,
+      columns: () => grid.style.gridTemplateColumns,
+      rows: () => grid.style.gridTemplateRows,
+    }
+  }
+
+  const press = (handle: Element, key: string) =>
+    handle.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }))
+
+  it('resizes the columns with a column-handle', async () => {
+    const grid = mountGrid(['300px', '1fr'])
+    press(grid.column, 'ArrowRight')
+    expect(grid.columns()).toBe('310px 10px 1fr')
+    await drag(grid.column, -110, 0).drop()
+    expect(grid.columns()).toBe('200px 10px 1fr')
+    expect(grid.rows()).toBe('1fr 10px 1fr')
+  })
+
+  it('resizes the rows with a row-handle', async () => {
+    const grid = mountGrid(['1fr'], ['1fr', '1fr'])
+    await drag(grid.row, 0, 99).drop()
+    expect(grid.rows()).toBe('1.2fr 10px 0.8fr')
+    expect(grid.columns()).toBe('1fr')
+  })
+
+  it('resizes the columns and rows at once with an intersection-handle', async () => {
+    const grid = mountGrid(['300px', '1fr'], ['300px', '1fr'])
+    await drag(grid.intersection, 50, -100).drop()
+    expect(grid.columns()).toBe('350px 10px 1fr')
+    expect(grid.rows()).toBe('200px 10px 1fr')
+  })
+
+  it('resizes tracks that fill the grid without fractions', async () => {
+    const pixels = mountGrid(['500px', '490px'])
+    press(pixels.column, 'ArrowRight')
+    expect(pixels.columns()).toBe('510px 10px 480px')
+
+    const percentages = mountGrid(['50%', '50%'])
+    press(percentages.column, 'ArrowRight')
+    expect(percentages.columns()).toBe('51% 10px 49%')
+  })
+
+  it('clamps the tracks to their min and max', async () => {
+    const grid = mountGrid([
+      { size: '300px', min: '200px', max: '400px' },
+      { size: '1fr', min: '500px' },
+    ])
+    await drag(grid.column, 500, 0).drop()
+    expect(grid.columns()).toBe('max(200px, min(400px, 400px)) 10px minmax(500px, 1fr)')
+    await drag(grid.column, -500, 0).drop()
+    expect(grid.columns()).toBe('max(200px, min(400px, 200px)) 10px minmax(500px, 1fr)')
+  })
+
+  it('inverts horizontal movement right-to-left', async () => {
+    const grid = mountGrid(['300px', '1fr'], ['1fr', '1fr'], { direction: 'rtl' })
+    press(grid.column, 'ArrowRight')
+    expect(grid.columns()).toBe('290px 10px 1fr')
+    await drag(grid.column, -90, 0).drop()
+    expect(grid.columns()).toBe('380px 10px 1fr')
+  })
+
+  it('rolls back a drag cancelled by Escape', async () => {
+    const grid = mountGrid(['300px', '1fr'], ['300px', '1fr'])
+    await drag(grid.intersection, 100, 100).cancel()
+    expect(grid.columns()).toBe('300px 10px 1fr')
+    expect(grid.rows()).toBe('300px 10px 1fr')
+  })
+})
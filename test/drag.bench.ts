@@ -0,0 +1,71 @@
+import { createRoot } from 'solid-js'
+import { bench, describe, vi } from 'vitest'
+import { createSplit, type PaneDescriptor, type SplitPrimitive } from '../src'
+import { cursor } from '../src/cursor'
+
+const PANES = 32
+const FRAMES = 30
+/** Pointer-moves per frame of a 1000Hz mouse on a 60Hz display. */
+const MOVES_PER_FRAME = 16
+
+const panes = Array.from(
+  { length: PANES * 2 - 1 },
+  (_, index): PaneDescriptor =>
+    index % 2
+      ? { size: '4px', handle: true }
+      : index % 4
+      ? { size: '1fr', min: '20px' }
+      : { size: '100px', min: '20px', max: '300px' },
+)
+const handles = panes.filter(pane => pane.handle)
+const split = createRoot(() => createSplit({ panes, containerSize: 4000 }))
+
+/** Reads what a rendered Split reads after each move: its template, sizes and the ranges of its handles. */
+function render(split: SplitPrimitive) {
+  split.template()
+  split.getSizes()
+  handles.forEach(handle => {
+    const [left, right] = split.getNeighboringPanes(handle)!
+    split.getPanePixels(left)
+    split.getPanePixels(right)
+    split.getPaneLimits(left)
+    split.getPaneLimits(right)
+  })
+}
+
+/**
+ * Drags the middle handle back and forth, delivering the pointer-moves frame by frame. Without `merge`
+ * there is no `requestAnimationFrame`, so every pointer-move is applied as it arrives.
+ */
+async function drag(merge: boolean) {
+  const frames: FrameRequestCallback[] = []
+  vi.stubGlobal(
+    'requestAnimationFrame',
+    merge ? (callback: FrameRequestCallback) => frames.push(callback) : undefined,
+  )
+  vi.stubGlobal('cancelAnimationFrame', () => {})
+  const handle = handles[handles.length >> 1]!
+  const neighbors = split.dragHandleStart(handle)!
+  const dragging = cursor(new MouseEvent('pointerdown') as PointerEvent, ({ delta }) => {
+    split.dragHandle(neighbors, delta.x)
+    render(split)
+  })
+
+  let move = 0
+  for (let frame = 0; frame < FRAMES; frame++) {
+    for (let index = 0; index < MOVES_PER_FRAME; index++) {
+      const clientX = Math.round(Math.sin(move++ / 20) * 200)
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX }))
+    }
+    frames.splice(0).forEach(callback => callback(performance.now()))
+  }
+  window.dispatchEvent(new MouseEvent('pointerup', { clientX: 0 }))
+  await dragging
+  split.dragHandleEnd()
+  vi.unstubAllGlobals()
+}
+
+describe(`drag over ${PANES} panes, ${MOVES_PER_FRAME} pointer-moves per frame`, () => {
+  bench('moves merged per animation frame', () => drag(true))
+  bench('every move applied', () => drag(false))
+})
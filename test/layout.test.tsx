@@ -0,0 +1,332 @@
+import { createSignal } from 'solid-js'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getPaneIds, movePane, removePane, Split, type LayoutNode, type LayoutSplit } from '../src'
+import { resizeNodes } from '../src/layout'
+import { drag, mount } from './setup'
+
+const layout: LayoutSplit = {
+  type: 'column',
+  children: [
+    { id: 'files', size: '200px' },
+    {
+      type: 'row',
+      children: [
+        { id: 'editor', size: '2fr' },
+        { id: 'terminal', size: '1fr' },
+      ],
+    },
+  ],
+}
+
+describe('getPaneIds', () => {
+  it('lists the panes in order of appearance', () => {
+    expect(getPaneIds(layout)).toEqual(['files', 'editor', 'terminal'])
+  })
+})
+
+describe('removePane', () => {
+  it('gives the space of the pane to its sibling of the same unit', () => {
+    const tree: LayoutNode = {
+      type: 'row',
+      children: [
+        { id: 'a', size: '1fr' },
+        { id: 'b', size: '2fr' },
+        { id: 'c', size: '1fr' },
+      ],
+    }
+    expect(removePane(tree, 'b')).toEqual({
+      type: 'row',
+      children: [
+        { id: 'a', size: '1fr' },
+        { id: 'c', size: '3fr' },
+      ],
+    })
+  })
+
+  it('replaces a split that is left with a single child by that child', () => {
+    expect(removePane(layout, 'terminal')).toEqual({
+      type: 'column',
+      children: [{ id: 'files', size: '200px' }, { id: 'editor' }],
+    })
+  })
+
+  it('keeps the size of a sibling of another unit', () => {
+    const tree: LayoutNode = {
+      type: 'column',
+      children: [
+        { id: 'a', size: '200px' },
+        { id: 'b', size: '1fr' },
+        { id: 'c', size: '1fr' },
+      ],
+    }
+    expect(removePane(tree, 'a')).toEqual({
+      type: 'column',
+      children: [
+        { id: 'b', size: '1fr' },
+        { id: 'c', size: '1fr' },
+      ],
+    })
+  })
+
+  it('returns undefined when the tree consists of the pane only', () => {
+    expect(removePane({ id: 'a' }, 'a')).toBeUndefined()
+  })
+
+  it('returns the same tree when the pane does not exist', () => {
+    expect(removePane(layout, 'missing')).toBe(layout)
+  })
+})
+
+describe('movePane', () => {
+  it('places the pane next to a target within a split of the same direction', () => {
+    expect(movePane(layout, 'files', 'editor', 'top')).toEqual({
+      type: 'row',
+      size: undefined,
+      children: [
+        { id: 'files', size: '1fr' },
+        { id: 'editor', size: '1fr' },
+        { id: 'terminal', size: '1fr' },
+      ],
+    })
+  })
+
+  it('halves the size of the target with the pane', () => {
+    expect(movePane(layout, 'terminal', 'files', 'right')).toEqual({
+      type: 'column',
+      children: [
+        { id: 'files', size: '100px' },
+        { id: 'terminal', size: '100px' },
+        { id: 'editor', size: undefined },
+      ],
+    })
+  })
+
+  it('wraps the target in a new split with an id in the other direction', () => {
+    expect(movePane(layout, 'files', 'terminal', 'right')).toEqual({
+      type: 'row',
+      size: undefined,
+      children: [
+        { id: 'editor', size: '2fr' },
+        {
+          type: 'column',
+          id: 'split-0',
+          size: '1fr',
+          children: [
+            { id: 'terminal', size: '1fr' },
+            { id: 'files', size: '1fr' },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('gives new splits an id that is not used yet', () => {
+    const tree: LayoutNode = {
+      ...layout,
+      children: [layout.children[0]!, { ...layout.children[1]!, id: 'split-0' }],
+    }
+    const next = movePane(tree, 'files', 'terminal', 'right') as LayoutSplit
+    expect(next.id).toBe('split-0')
+    expect((next.children[1] as LayoutSplit).id).toBe('split-1')
+  })
+
+  it('swaps the panes when dropped on the center', () => {
+    expect(getPaneIds(movePane(layout, 'files', 'terminal', 'center'))).toEqual([
+      'terminal',
+      'editor',
+      'files',
+    ])
+  })
+
+  it('returns the same tree for unknown panes or a drop on itself', () => {
+    expect(movePane(layout, 'files', 'files', 'left')).toBe(layout)
+    expect(movePane(layout, 'missing', 'files', 'left')).toBe(layout)
+  })
+
+  it('does not change the given tree', () => {
+    const copy = JSON.parse(JSON.stringify(layout))
+    movePane(layout, 'files', 'editor', 'bottom')
+    expect(layout).toEqual(copy)
+  })
+})
+
+describe('resizeNodes', () => {
+  it('resizes the given nodes and keeps the identity of the other nodes', () => {
+    const [files, split] = layout.children
+    const tree = resizeNodes(layout, new Map([[split!, '300px']])) as LayoutSplit
+    expect(tree.children[1]).toEqual({ ...split, size: '300px' })
+    expect(tree.children[0]).toBe(files)
+  })
+
+  it('returns the same tree when no node is resized', () => {
+    expect(resizeNodes(layout, new Map())).toBe(layout)
+  })
+})
+
+describe('Split.Layout', () => {
+  function renderLayout(layout: () => LayoutNode) {
+    const onLayoutChange = vi.fn()
+    const container = mount(() => (
+      <Split.Layout layout={layout()} onLayoutChange={onLayoutChange} handleSize="0px">
+        {id => id}
+      </Split.Layout>
+    ))
+    const handles = container.querySelectorAll('[role="separator"]')
+    return { onLayoutChange, handles, container }
+  }
+
+  it('writes the sizes of all panes of the split back into the tree', () => {
+    const { onLayoutChange, handles } = renderLayout(() => ({
+      type: 'column',
+      children: [{ id: 'a', size: '200px' }, { id: 'b' }, { id: 'c' }],
+    }))
+    handles[0]!.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'ArrowRight', shiftKey: true, bubbles: true }),
+    )
+    expect(onLayoutChange).toHaveBeenLastCalledWith({
+      type: 'column',
+      children: [
+        { id: 'a', size: '300px' },
+        { id: 'b', size: '0.8571fr' },
+        { id: 'c', size: '1.1429fr' },
+      ],
+    })
+  })
+
+  it('keeps nested splits mounted when their first pane changes', () => {
+    const [layout, setLayout] = createSignal<LayoutNode>({
+      type: 'column',
+      children: [
+        { id: 'a' },
+        { type: 'row', children: [{ id: 'b' }, { id: 'c' }] },
+        { type: 'row', id: 'right', children: [{ id: 'd' }, { id: 'e' }, { id: 'f' }] },
+      ],
+    })
+    const { container } = renderLayout(layout)
+    const getSplit = (id: string) =>
+      container.querySelector(`[data-pane-id="${id}"]`)!.parentElement
+    const [first, second] = [getSplit('c'), getSplit('f')]
+
+    setLayout({
+      type: 'column',
+      children: [
+        { id: 'a' },
+        { type: 'row', children: [{ id: 'c' }, { id: 'b' }] },
+        { type: 'row', id: 'right', children: [{ id: 'e' }, { id: 'f' }] },
+        { id: 'd' },
+      ],
+    })
+    // Splits without an id are kept by their position, splits with an id by their id.
+    expect(getSplit('c')).toBe(first)
+    expect(getSplit('f')).toBe(second)
+  })
+
+  it('follows the direction of a nested split without an id', () => {
+    const [layout, setLayout] = createSignal<LayoutNode>({
+      type: 'column',
+      children: [{ type: 'row', children: [{ id: 'a' }, { id: 'b' }] }, { id: 'c' }],
+    })
+    const { container } = renderLayout(layout)
+    const split = container.querySelector('[data-pane-id="a"]')!.parentElement!
+    expect(split.style.gridTemplateRows).toBe('1fr 0px 1fr')
+
+    setLayout({
+      type: 'column',
+      children: [{ type: 'column', children: [{ id: 'a' }, { id: 'b' }] }, { id: 'c' }],
+    })
+    expect(split.style.gridTemplateColumns).toBe('1fr 0px 1fr')
+    expect(split.style.gridTemplateRows).toBe('')
+  })
+})
+
+describe('Split.Dock', () => {
+  const layout: LayoutSplit = {
+    type: 'column',
+    children: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+  }
+
+  // jsdom does not lay out: the panes are placed side by side, 300px wide and 300px high.
+  beforeEach(() => {
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (
+      this: Element,
+    ) {
+      const index = ['a', 'b', 'c'].indexOf(this.getAttribute('data-pane-id')!)
+      return index < 0 ? new DOMRect() : new DOMRect(index * 300, 0, 300, 300)
+    })
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function renderDock(layout: () => LayoutNode) {
+    const onLayoutChange = vi.fn()
+    const container = mount(() => (
+      <Split.Dock layout={layout()} onLayoutChange={onLayoutChange} handleSize="0px">
+        {id => <Split.Dock.Header data-header={id}>{id}</Split.Dock.Header>}
+      </Split.Dock>
+    ))
+    const getPane = (id: string) => container.querySelector(`[data-pane-id="${id}"]`)!
+    const getHeader = (id: string) => container.querySelector(`[data-header="${id}"]`)!
+    return { onLayoutChange, getPane, getHeader, container }
+  }
+
+  it('marks the dragged pane and the drop zone of the pane under the pointer', async () => {
+    const { getPane, getHeader, container } = renderDock(() => layout)
+    const dragging = drag(getHeader('a'), 590, 150)
+
+    expect(getPane('a').hasAttribute('data-dragging')).toBe(true)
+    expect(getPane('b').getAttribute('data-drop-target')).toBe('right')
+    expect(getPane('b').querySelector('[data-drop-zone="right"]')).not.toBeNull()
+
+    await dragging.cancel()
+    expect(getPane('a').hasAttribute('data-dragging')).toBe(false)
+    expect(getPane('b').hasAttribute('data-drop-target')).toBe(false)
+    expect(container.querySelector('[data-drop-zone]')).toBeNull()
+  })
+
+  it('selects the drop zone by the nearest edge, or the center', async () => {
+    const { getPane, getHeader } = renderDock(() => layout)
+    const zones: Array<string | null> = []
+    for (const [x, y] of [
+      [610, 150],
+      [890, 150],
+      [750, 10],
+      [750, 290],
+      [750, 150],
+    ] as const) {
+      const dragging = drag(getHeader('a'), x, y)
+      zones.push(getPane('c').getAttribute('data-drop-target'))
+      await dragging.cancel()
+    }
+    expect(zones).toEqual(['left', 'right', 'top', 'bottom', 'center'])
+  })
+
+  it('moves the pane on a drop and passes the new layout to onLayoutChange', async () => {
+    const { onLayoutChange, container, getHeader } = renderDock(() => layout)
+    await drag(getHeader('a'), 890, 150).drop()
+
+    const next = movePane(layout, 'a', 'c', 'right')
+    expect(onLayoutChange).toHaveBeenLastCalledWith(next)
+    expect(getPaneIds(next)).toEqual(['b', 'c', 'a'])
+    const ids = [...container.querySelectorAll('[data-pane-id]')].map(pane =>
+      pane.getAttribute('data-pane-id'),
+    )
+    expect(ids).toEqual(['b', 'c', 'a'])
+  })
+
+  it('drops on a pane that was moved into another split', async () => {
+    const { getPane, getHeader } = renderDock(() => layout)
+    await drag(getHeader('c'), 150, 290).drop()
+    expect(getPane('c').parentElement).not.toBe(getPane('b').parentElement)
+
+    const dragging = drag(getHeader('b'), 750, 150)
+    expect(getPane('c').getAttribute('data-drop-target')).toBe('center')
+    await dragging.cancel()
+  })
+
+  it('does not move the pane when the drag is cancelled by Escape', async () => {
+    const { onLayoutChange, getHeader } = renderDock(() => layout)
+    await drag(getHeader('a'), 890, 150).cancel()
+    expect(onLayoutChange).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,48 @@
+import { renderToString } from 'solid-js/web'
+import { describe, expect, it } from 'vitest'
+import { createCookieStorage, Split } from '../src'
+
+describe('server', () => {
+  it('renders the declared sizes of the panes', () => {
+    const html = renderToString(() => (
+      <Split>
+        <Split.Pane size="200px" min="100px" />
+        <Split.Handle size="10px" />
+        <Split.Pane size="1fr" />
+      </Split>
+    ))
+    expect(html).toContain('grid-template-columns:max(100px, 200px) 10px 1fr')
+  })
+
+  it('renders the layout persisted in a cookie', () => {
+    const layout = [
+      { size: '200px', value: 320 },
+      { size: '1fr', value: 1 },
+    ]
+    const storage = createCookieStorage({
+      cookie: `theme=dark; layout=${encodeURIComponent(JSON.stringify(layout))}`,
+    })
+    const html = renderToString(() => (
+      <Split storageKey="layout" storage={storage}>
+        <Split.Pane size="200px" />
+        <Split.Handle size="10px" />
+        <Split.Pane size="1fr" />
+      </Split>
+    ))
+    expect(html).toContain('grid-template-columns:calc(320px) 10px 1fr')
+  })
+
+  it('ignores persisted layouts that do not match the panes', () => {
+    const storage = createCookieStorage({
+      cookie: `layout=${encodeURIComponent(JSON.stringify([{ size: '300px', value: 320 }]))}`,
+    })
+    const html = renderToString(() => (
+      <Split storageKey="layout" storage={storage}>
+        <Split.Pane size="200px" />
+        <Split.Handle size="10px" />
+        <Split.Pane size="1fr" />
+      </Split>
+    ))
+    expect(html).toContain('grid-template-columns:200px 10px 1fr')
+  })
+})
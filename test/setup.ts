@@ -0,0 +1,52 @@
+import { type JSX } from 'solid-js'
+import { render } from 'solid-js/web'
+import { afterEach, vi } from 'vitest'
+
+// jsdom does not lay out: every Split measures 1000px.
+class ResizeObserver {
+  constructor(private callback: ResizeObserverCallback) {}
+  observe() {
+    this.callback(
+      [{ contentRect: { width: 1000, height: 1000 } } as ResizeObserverEntry],
+      this as unknown as globalThis.ResizeObserver,
+    )
+  }
+  disconnect() {}
+}
+vi.stubGlobal('ResizeObserver', ResizeObserver)
+
+let dispose: (() => void) | undefined
+afterEach(() => {
+  dispose?.()
+  dispose = undefined
+  document.body.innerHTML = ''
+})
+
+/** Renders into a container attached to the document, disposed after each test. */
+export function mount(children: () => JSX.Element) {
+  const container = document.body.appendChild(document.createElement('div'))
+  dispose = render(children, container)
+  return container
+}
+
+/**
+ * Drags the element from the origin to the given position. Without requestAnimationFrame the move is applied
+ * as it arrives. The drag is ended by a pointerup with `drop`, or by Escape with `cancel`.
+ */
+export function drag(element: Element, clientX: number, clientY: number) {
+  const { requestAnimationFrame } = window
+  vi.stubGlobal('requestAnimationFrame', undefined)
+  element.dispatchEvent(new MouseEvent('pointerdown', { clientX: 0, clientY: 0, bubbles: true }))
+  window.dispatchEvent(new MouseEvent('pointermove', { clientX, clientY }))
+  vi.stubGlobal('requestAnimationFrame', requestAnimationFrame)
+
+  const end = async (event: Event) => {
+    window.dispatchEvent(event)
+    // The drag ends once the promise of the cursor is settled.
+    await new Promise(resolve => setTimeout(resolve))
+  }
+  return {
+    drop: () => end(new MouseEvent('pointerup', { clientX, clientY })),
+    cancel: () => end(new KeyboardEvent('keydown', { key: 'Escape' })),
+  }
+}
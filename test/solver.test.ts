@@ -0,0 +1,215 @@
+import { createRoot } from 'solid-js'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createSplit, type PaneDescriptor, type SplitPrimitive } from '../src'
+import { clampBoundary, resolvePixelsPerFraction, toFractions, type Limits } from '../src/solver'
+
+/** Seeded generator (Park-Miller), so that failing cases can be reproduced. */
+function createRandom(seed: number) {
+  const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+  return {
+    next,
+    between: (min: number, max: number) => min + next() * (max - min),
+    integer: (min: number, max: number) => Math.floor(min + next() * (max - min + 1)),
+    pick: <T>(values: readonly T[]) => values[Math.floor(next() * values.length)]!,
+  }
+}
+type Random = ReturnType<typeof createRandom>
+
+const RUNS = 200
+const EPSILON = 1e-6
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+function createLimits(random: Random, size: number): Limits {
+  const min = random.next() < 0.5 ? 0 : random.between(0, size)
+  const max = random.next() < 0.5 ? Infinity : random.between(size, size * 2)
+  return { min, max }
+}
+
+describe('resolvePixelsPerFraction', () => {
+  it('fills the space with fractions that add up to at least 1', () => {
+    const random = createRandom(1)
+    for (let run = 0; run < RUNS; run++) {
+      const space = random.between(0, 2000)
+      const fractions = random.between(1, 10)
+      expect(resolvePixelsPerFraction(space, fractions) * fractions).toBeCloseTo(space, 6)
+    }
+  })
+
+  it('gives fractions below 1 their share of the space without filling it', () => {
+    const random = createRandom(2)
+    for (let run = 0; run < RUNS; run++) {
+      const space = random.between(0, 2000)
+      const fractions = random.between(0, 1)
+      expect(resolvePixelsPerFraction(space, fractions)).toBe(space)
+    }
+  })
+
+  it('resolves to 0 without space', () => {
+    expect(resolvePixelsPerFraction(-100, 2)).toBe(0)
+  })
+})
+
+describe('clampBoundary', () => {
+  it('moves within the limits of both tracks, never against the delta', () => {
+    const random = createRandom(3)
+    for (let run = 0; run < RUNS * 10; run++) {
+      const [before, after] = [random.between(0, 500), random.between(0, 500)]
+      const [beforeLimits, afterLimits] = [
+        createLimits(random, before),
+        createLimits(random, after),
+      ]
+      const delta = random.between(-600, 600)
+      const applied = clampBoundary(before, after, beforeLimits, afterLimits, delta)
+
+      expect(Math.abs(applied)).toBeLessThanOrEqual(Math.abs(delta))
+      expect(applied * delta).toBeGreaterThanOrEqual(0)
+      expect(before + applied).toBeGreaterThanOrEqual(beforeLimits.min - EPSILON)
+      expect(before + applied).toBeLessThanOrEqual(beforeLimits.max + EPSILON)
+      expect(after - applied).toBeGreaterThanOrEqual(afterLimits.min - EPSILON)
+      expect(after - applied).toBeLessThanOrEqual(afterLimits.max + EPSILON)
+    }
+  })
+
+  it('keeps tracks that exceed their limits from moving further out', () => {
+    expect(
+      clampBoundary(50, 200, { min: 100, max: Infinity }, { min: 0, max: Infinity }, -20),
+    ).toBe(0)
+    expect(clampBoundary(50, 200, { min: 100, max: Infinity }, { min: 0, max: Infinity }, 20)).toBe(
+      20,
+    )
+  })
+})
+
+describe('toFractions', () => {
+  it('renders sizes that fill the space at those sizes, keeping the total of the fractions', () => {
+    const random = createRandom(4)
+    for (let run = 0; run < RUNS; run++) {
+      const fractions = Array.from({ length: random.integer(1, 6) }, () => random.between(0.1, 3))
+      const pixels = fractions.map(() => random.between(0, 400))
+      const space = sum(pixels)
+      if (sum(fractions) < 1 || space <= 0) continue
+
+      const result = toFractions(pixels, fractions, space)
+      expect(sum(result)).toBeCloseTo(sum(fractions), 6)
+      const pixelsPerFraction = resolvePixelsPerFraction(space, sum(result))
+      result.forEach((fraction, index) =>
+        expect(fraction * pixelsPerFraction).toBeCloseTo(pixels[index]!, 6),
+      )
+    }
+  })
+
+  it('renders sizes within the space at those sizes for fractions below 1', () => {
+    const random = createRandom(5)
+    for (let run = 0; run < RUNS; run++) {
+      const fractions = Array.from({ length: random.integer(1, 4) }, () => random.between(0, 0.25))
+      const pixels = fractions.map(() => random.between(0, 200))
+      const space = sum(pixels) + random.between(0, 400)
+
+      const result = toFractions(pixels, fractions, space)
+      const pixelsPerFraction = resolvePixelsPerFraction(space, sum(result))
+      result.forEach((fraction, index) =>
+        expect(fraction * pixelsPerFraction).toBeCloseTo(pixels[index]!, 6),
+      )
+    }
+  })
+
+  it('keeps the fractions without space to resolve against', () => {
+    expect(toFractions([100, 200], [1, 2], 0)).toEqual([1, 2])
+  })
+})
+
+describe('createSplit', () => {
+  const disposers: Array<() => void> = []
+  afterEach(() => disposers.splice(0).forEach(dispose => dispose()))
+
+  /** Random mix of fraction, px, % and em panes, with handles in between. */
+  function createPanes(random: Random) {
+    const panes: PaneDescriptor[] = []
+    const count = random.integer(2, 6)
+    for (let index = 0; index < count; index++) {
+      if (index) panes.push({ size: `${random.integer(0, 8)}px`, handle: true })
+      const min = random.pick([
+        undefined,
+        `${random.integer(10, 60)}px`,
+        `${random.integer(1, 5)}%`,
+      ])
+      const max = random.pick([
+        undefined,
+        undefined,
+        `${random.integer(200, 500)}px`,
+        `${random.integer(25, 60)}%`,
+      ])
+      const size = random.pick([
+        `${random.pick([0.5, 1, 1.5, 2, 3])}fr`,
+        `${random.integer(40, 150)}px`,
+        `${random.integer(5, 15)}%`,
+        `${random.integer(3, 8)}em`,
+      ])
+      panes.push({ size, min, max } as PaneDescriptor)
+    }
+    // Fractions that add up to at least 1 fill the split.
+    panes.push({ size: '10px', handle: true }, { size: '1fr' })
+    return panes
+  }
+
+  function setup(random: Random) {
+    const panes = createPanes(random)
+    const containerSize = random.integer(1000, 1600)
+    const split = createRoot(dispose => {
+      disposers.push(dispose)
+      return createSplit({ panes, containerSize, cascade: random.next() < 0.3 })
+    })
+    return { panes, containerSize, split }
+  }
+
+  const isWithin = (pixels: number, limits: Limits) =>
+    pixels >= limits.min - EPSILON && pixels <= limits.max + EPSILON
+
+  /** Moves a random handle, by a single drag-update or by a drag of several updates. */
+  function move(random: Random, split: SplitPrimitive, handles: PaneDescriptor[]) {
+    const handle = random.pick(handles)
+    const deltas = Array.from({ length: random.integer(1, 4) }, () => random.between(-400, 400))
+    if (deltas.length === 1) {
+      split.resizeBy(handle, deltas[0]!)
+    } else {
+      const neighbors = split.dragHandleStart(handle)!
+      deltas.forEach(delta => split.dragHandle(neighbors, delta))
+      split.dragHandleEnd()
+    }
+    return { handle, delta: sum(deltas), single: deltas.length === 1 }
+  }
+
+  it('fills the split and respects the limits of the panes on every move', () => {
+    const random = createRandom(6)
+    for (let run = 0; run < RUNS; run++) {
+      const { panes, containerSize, split } = setup(random)
+      const handles = panes.filter(pane => pane.handle)
+      const getPixels = () => panes.map(split.getPanePixels)
+
+      expect(sum(getPixels())).toBeCloseTo(containerSize, 6)
+
+      for (let step = 0; step < 20; step++) {
+        const before = getPixels()
+        const limits = panes.map(split.getPaneLimits)
+        const { handle, delta, single } = move(random, split, handles)
+        const after = getPixels()
+        const context = JSON.stringify({ run, step, panes, before, after })
+
+        expect(sum(after), context).toBeCloseTo(containerSize, 6)
+        after.forEach((pixels, index) => {
+          if (isWithin(before[index]!, limits[index]!)) {
+            expect(isWithin(pixels, limits[index]!), context).toBe(true)
+          }
+        })
+        if (single) {
+          // A handle moves at most by the delta, and never against it.
+          const index = panes.indexOf(handle)
+          const moved = sum(after.slice(0, index)) - sum(before.slice(0, index))
+          expect(moved * delta, context).toBeGreaterThanOrEqual(-EPSILON)
+          expect(Math.abs(moved), context).toBeLessThanOrEqual(Math.abs(delta) + EPSILON)
+        }
+      }
+    }
+  })
+})
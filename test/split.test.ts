@@ -0,0 +1,285 @@
+import { createRoot, createSignal, mergeProps, type Accessor } from 'solid-js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createSplit,
+  type CreateSplitOptions,
+  type PaneDescriptor,
+  type PaneSize,
+  type SplitPrimitive,
+} from '../src'
+
+const disposers: Array<() => void> = []
+afterEach(() => disposers.splice(0).forEach(dispose => dispose()))
+
+/** Creates a split of 1000px. Options are merged lazily, so getters stay reactive. */
+function setup(
+  panes: PaneDescriptor[] | Accessor<PaneDescriptor[]>,
+  options: Partial<CreateSplitOptions> = {},
+) {
+  return createRoot(dispose => {
+    disposers.push(dispose)
+    return createSplit(
+      mergeProps({ containerSize: 1000 }, options, {
+        get panes() {
+          return typeof panes === 'function' ? panes() : panes
+        },
+      }),
+    )
+  })
+}
+
+const handle = (): PaneDescriptor => ({ size: '10px', handle: true })
+const fraction = (): PaneDescriptor => ({ size: '1fr' })
+const pixels = (split: SplitPrimitive) => split.getSizes().map(size => Number(size.px.toFixed(2)))
+
+describe('constraints', () => {
+  it('uses min as lower and max as upper bound', () => {
+    const left: PaneDescriptor = { size: '200px', min: '100px', max: '300px' }
+    const split = setup([left, handle(), { size: '1fr' }])
+    expect(split.template()).toBe('max(100px, min(300px, 200px)) 10px 1fr')
+    expect(split.getPaneLimits(left)).toEqual({ min: 100, max: 300 })
+  })
+
+  it('clamps moves of a handle to the limits of its panes', () => {
+    const divider = handle()
+    const split = setup([{ size: '200px', min: '100px', max: '30%' }, divider, { size: '1fr' }])
+    split.resizeBy(divider, 500)
+    expect(pixels(split)).toEqual([300, 690])
+    split.resizeBy(divider, -500)
+    expect(pixels(split)).toEqual([100, 890])
+  })
+
+  it('ignores a max below the min', () => {
+    const left: PaneDescriptor = { size: '200px', min: '150px', max: '100px' }
+    const split = setup([left, handle(), { size: '1fr' }])
+    expect(split.getPaneLimits(left)).toEqual({ min: 150, max: 150 })
+  })
+})
+
+describe('relative units', () => {
+  it('measures `ch` once per font of the element', () => {
+    const element = document.body.appendChild(document.createElement('div'))
+    const divider = handle()
+    const left: PaneDescriptor = { size: '10ch' }
+    const createElement = vi.spyOn(document, 'createElement')
+    const split = setup([left, divider, { size: '1fr' }], { element })
+    split.getPanePixels(left)
+    split.resizeBy(divider, 10)
+    split.resizeBy(divider, 10)
+    expect(createElement).toHaveBeenCalledTimes(1)
+
+    element.style.fontSize = '20px'
+    split.resizeBy(divider, 10)
+    expect(createElement).toHaveBeenCalledTimes(2)
+    createElement.mockRestore()
+    element.remove()
+  })
+
+  it('follows resizes of the viewport for `vw` and `vh`', () => {
+    const left: PaneDescriptor = { size: '10vw' }
+    const split = setup([left, handle(), { size: '1fr' }])
+    window.innerWidth = 1000
+    window.dispatchEvent(new Event('resize'))
+    expect(split.getPanePixels(left)).toBe(100)
+    window.innerWidth = 500
+    window.dispatchEvent(new Event('resize'))
+    expect(split.getPanePixels(left)).toBe(50)
+  })
+})
+
+describe('controlled sizes', () => {
+  it('renders the given sizes', () => {
+    const split = setup([{ size: '200px' }, handle(), { size: '1fr' }], {
+      sizes: [
+        { value: 300, unit: 'px' },
+        { value: 1, unit: 'fr' },
+      ],
+    })
+    expect(split.template()).toBe('calc(300px) 10px 1fr')
+  })
+
+  it('keeps the given sizes until they are updated through onSizesChange', () => {
+    const divider = handle()
+    const [sizes, setSizes] = createSignal<PaneSize[]>([
+      { value: 200, unit: 'px' },
+      { value: 1, unit: 'fr' },
+    ])
+    const onSizesChange = vi.fn()
+    const split = setup([{ size: '200px' }, divider, { size: '1fr' }], {
+      get sizes() {
+        return sizes()
+      },
+      onSizesChange,
+    })
+    split.resizeBy(divider, 100)
+    expect(onSizesChange).toHaveBeenLastCalledWith([
+      { value: 300, unit: 'px', px: 300 },
+      { value: 1, unit: 'fr', px: 690 },
+    ])
+    expect(pixels(split)).toEqual([200, 790])
+
+    setSizes(onSizesChange.mock.lastCall![0])
+    expect(pixels(split)).toEqual([300, 690])
+  })
+})
+
+describe('persistence', () => {
+  it('restores a serialized layout', () => {
+    const divider = handle()
+    const panes = () => [{ size: '200px' }, divider, { size: '1fr' }] as PaneDescriptor[]
+    const split = setup(panes())
+    split.resizeBy(divider, 50)
+    const layout = JSON.parse(JSON.stringify(split.serialize()))
+
+    const restored = setup(panes())
+    expect(restored.restore(layout)).toBe(true)
+    expect(pixels(restored)).toEqual([250, 740])
+  })
+
+  it('discards layouts that do not match the panes', () => {
+    const split = setup([{ size: '200px' }, handle(), { size: '1fr' }])
+    expect(split.restore([{ size: '300px', value: 250 }])).toBe(false)
+    expect(
+      split.restore([
+        { size: '200px', value: 250 },
+        { size: '2fr', value: 1 },
+      ]),
+    ).toBe(false)
+    expect(split.restore('corrupt')).toBe(false)
+    expect(pixels(split)).toEqual([200, 790])
+  })
+})
+
+describe('collapsing', () => {
+  it('collapses to the collapsed size and expands to the size before', () => {
+    const onCollapse = vi.fn()
+    const onExpand = vi.fn()
+    const sidebar: PaneDescriptor = {
+      size: '200px',
+      collapsible: true,
+      collapsedSize: '40px',
+      onCollapse,
+      onExpand,
+    }
+    const divider = handle()
+    const split = setup([sidebar, divider, { size: '1fr' }])
+    split.resizeBy(divider, 50)
+
+    split.collapse(sidebar)
+    expect(split.isCollapsed(sidebar)).toBe(true)
+    expect(pixels(split)).toEqual([40, 950])
+    expect(onCollapse).toHaveBeenCalledTimes(1)
+
+    split.expand(sidebar)
+    expect(split.isCollapsed(sidebar)).toBe(false)
+    expect(pixels(split)).toEqual([250, 740])
+    expect(onExpand).toHaveBeenCalledTimes(1)
+  })
+
+  it('collapses when dragged below the collapse threshold', () => {
+    const sidebar: PaneDescriptor = { size: '200px', collapsible: true, collapseThreshold: '100px' }
+    const divider = handle()
+    const split = setup([sidebar, divider, { size: '1fr' }])
+    split.resizeBy(divider, -150)
+    expect(split.isCollapsed(sidebar)).toBe(true)
+    expect(pixels(split)).toEqual([0, 990])
+  })
+})
+
+describe('cascade', () => {
+  const [first, second] = [handle(), handle()]
+  const panes: PaneDescriptor[] = [
+    { size: '200px' },
+    first,
+    { size: '200px', min: '100px' },
+    second,
+    fraction(),
+  ]
+
+  it('stops at the limit of the neighboring pane by default', () => {
+    const split = setup(panes)
+    split.resizeBy(first, 300)
+    expect(pixels(split)).toEqual([300, 100, 580])
+  })
+
+  it('pushes the next panes once the neighboring pane reaches its limit', () => {
+    const split = setup(panes, { cascade: true })
+    split.resizeBy(first, 300)
+    expect(pixels(split)).toEqual([500, 100, 380])
+  })
+})
+
+describe('drags', () => {
+  it('rolls a cancelled drag back to the sizes before the drag', () => {
+    const sidebar: PaneDescriptor = { size: '200px', collapsible: true }
+    const divider = handle()
+    const split = setup([sidebar, divider, { size: '1fr' }, handle(), { size: '1fr' }], {
+      cascade: true,
+    })
+    split.resizeBy(divider, 100)
+    const before = pixels(split)
+
+    const neighbors = split.dragHandleStart(divider)!
+    split.dragHandle(neighbors, 400)
+    split.dragHandle(neighbors, -700)
+    expect(split.isCollapsed(sidebar)).toBe(true)
+    split.dragHandleCancel()
+
+    expect(split.isCollapsed(sidebar)).toBe(false)
+    expect(pixels(split)).toEqual(before)
+  })
+})
+
+describe('dynamic panes', () => {
+  it('gives the space of a removed pane to its neighbors', () => {
+    const [first, divider, second, last] = [fraction(), handle(), fraction(), fraction()]
+    const [panes, setPanes] = createSignal<PaneDescriptor[]>([
+      first,
+      divider,
+      second,
+      handle(),
+      last,
+    ])
+    const split = setup(panes)
+    split.resizeBy(divider, -100)
+    expect(pixels(split)).toEqual([226.67, 426.67, 326.67])
+
+    setPanes([first, divider, second])
+    expect(pixels(split)).toEqual([226.67, 763.33])
+  })
+
+  it('takes the space of an inserted pane from its next neighbor', () => {
+    const [first, divider, second] = [fraction(), handle(), fraction()]
+    const [panes, setPanes] = createSignal<PaneDescriptor[]>([first, divider, second])
+    const split = setup(panes)
+    setPanes([first, divider, { size: '100px' }, handle(), second])
+    expect(pixels(split)).toEqual([495, 100, 385])
+  })
+
+  it('gives a pane with a key its size back when it is inserted again', () => {
+    const panel: PaneDescriptor = { size: '200px', key: 'panel' }
+    const divider = handle()
+    const [panes, setPanes] = createSignal<PaneDescriptor[]>([panel, divider, fraction()])
+    const split = setup(panes)
+    split.resizeBy(divider, 100)
+    const rest = panes().slice(2)
+
+    setPanes(rest)
+    setPanes([{ size: '200px', key: 'panel' }, handle(), ...rest])
+    expect(pixels(split)).toEqual([300, 690])
+  })
+
+  it('does not preserve sizes when preserveSizes is false', () => {
+    const [first, divider, second, last] = [fraction(), handle(), fraction(), fraction()]
+    const [panes, setPanes] = createSignal<PaneDescriptor[]>([
+      first,
+      divider,
+      second,
+      handle(),
+      last,
+    ])
+    const split = setup(panes, { preserveSizes: false })
+    setPanes([first, divider, second])
+    expect(pixels(split)).toEqual([495, 495])
+  })
+})